@@ -2,10 +2,11 @@
  * Service Worker for Color Blindness Simulator
  * 
  * Handles background tasks, badge updates, keyboard shortcuts,
- * and tab state management.
+ * and tab and frame state management.
  */
 
-import type { FilterConfig, ColorBlindnessType } from '../lib/colorblind-filters';
+import type { FilterConfig } from '../lib/colorblind-filters';
+import { getSimulationLabel, hasActiveSimulation, normalizeConfig, simulatePalette } from '../lib/colorblind-filters';
 import { 
   getCurrentFilter, 
   setCurrentFilter, 
@@ -15,37 +16,87 @@ import {
   addToHistory
 } from '../lib/storage';
 import { createLogger } from '../lib/logger';
+import type { ErrorResponse } from '../lib/errors';
+import { ErrorCodes, createError, isErrorResponse, toErrorResponse } from '../lib/errors';
 
 const logger = createLogger('ServiceWorker');
 
 // Track active filters per tab
 const tabFilters = new Map<number, { isEnabled: boolean; config: FilterConfig }>();
 
+// Frames per tab with a registered content script.
+// Cleared on navigation and lost when the worker restarts.
+const tabFrames = new Map<number, Set<number>>();
+
+/**
+ * Whether a frame's rendering decides how one of its child frames looks,
+ * as reported by the frame
+ */
+interface FrameCoverage {
+  frameId: number;
+  isCovered: boolean;
+}
+
+// Tabs showing the split-screen comparison, which lives in the top frame
+const tabComparisons = new Set<number>();
+
+// Chrome's id for the top-level frame of a tab
+const MAIN_FRAME_ID = 0;
+
+/**
+ * Send a message to every filtering frame of a tab.
+ * Falls back to a tab-wide message while the main frame is unknown,
+ * e.g. after the worker restarted, so no frame is missed.
+ * @returns The responses of the frames that answered
+ */
+async function sendToFrames(tabId: number, message: { action: string; [key: string]: unknown }): Promise<unknown[]> {
+  const frames = tabFrames.get(tabId);
+  if (!frames?.has(MAIN_FRAME_ID)) {
+    return [await chrome.tabs.sendMessage(tabId, message)];
+  }
+  
+  return Promise.all([...frames].map(async (frameId) => {
+    try {
+      return await chrome.tabs.sendMessage(tabId, message, { frameId });
+    } catch {
+      // Frame went away without unregistering
+      frames.delete(frameId);
+      logger.debug(`Dropped frame ${frameId} of tab ${tabId}`);
+      return undefined;
+    }
+  }));
+}
+
+/**
+ * Ask the registered frames of a tab whether one of them already covers a
+ * frame: its filter reaches the frame, or it keeps the frame unfiltered
+ */
+async function isFrameCovered(tabId: number, frameId: number): Promise<boolean> {
+  // A tab-wide message would only return one frame's answer
+  if (!tabFrames.get(tabId)?.has(MAIN_FRAME_ID)) {
+    return false;
+  }
+  const responses = await sendToFrames(tabId, { action: 'getFrameCoverage' });
+  return responses.some(response =>
+    (response as { frames?: FrameCoverage[] } | undefined)?.frames?.some(frame =>
+      frame.frameId === frameId && frame.isCovered
+    )
+  );
+}
+
 /**
  * Update extension badge to show filter status
  */
-async function updateBadge(tabId: number, isEnabled: boolean, filterType: ColorBlindnessType): Promise<void> {
+async function updateBadge(tabId: number, isEnabled: boolean, config: FilterConfig): Promise<void> {
   try {
-    if (isEnabled && filterType !== 'normal') {
+    if (isEnabled && hasActiveSimulation(config)) {
       // Show colored dot when filter is active
       await chrome.action.setBadgeText({ text: '●', tabId });
       await chrome.action.setBadgeBackgroundColor({ color: '#10b981', tabId }); // Green
       
       // Update title to show active filter
-      const filterNames: Record<ColorBlindnessType, string> = {
-        normal: 'Normal',
-        protanopia: 'Protanopia',
-        protanomaly: 'Protanomaly', 
-        deuteranopia: 'Deuteranopia',
-        deuteranomaly: 'Deuteranomaly',
-        tritanopia: 'Tritanopia',
-        tritanomaly: 'Tritanomaly',
-        achromatopsia: 'Achromatopsia',
-        achromatomaly: 'Achromatomaly'
-      };
-      
       await chrome.action.setTitle({ 
-        title: `Color Blindness Simulator - ${filterNames[filterType]} Active`,
+        title: `Color Blindness Simulator - ${getSimulationLabel(config)} Active`,
         tabId 
       });
     } else {
@@ -63,34 +114,76 @@ async function updateBadge(tabId: number, isEnabled: boolean, filterType: ColorB
 
 /**
  * Apply filter to a specific tab
+ * @param recordHistory - Add the filter to the history, off for demo cycle steps
+ * @param persist - Save the filter as the user's current filter, off for demo
+ * cycle steps so a cycle cut short by closing the tab leaves it untouched
+ * @returns The first error a frame reported, e.g. FILTER_APPLICATION_FAILED
+ * when the page rejects the filter
  */
-async function applyFilterToTab(tabId: number, config: FilterConfig, enabled: boolean): Promise<void> {
+async function applyFilterToTab(
+  tabId: number,
+  config: FilterConfig,
+  enabled: boolean,
+  recordHistory: boolean = true,
+  persist: boolean = true
+): Promise<{ success: true } | ErrorResponse> {
+  let result: { success: true } | ErrorResponse = { success: true };
   try {
     // Store tab state
     tabFilters.set(tabId, { isEnabled: enabled, config });
     
     // Update badge
-    await updateBadge(tabId, enabled, config.type);
+    await updateBadge(tabId, enabled, config);
     
-    // Send message to content script
-    if (enabled && config.type !== 'normal') {
-      await chrome.tabs.sendMessage(tabId, { action: 'applyFilter', config });
+    // Send message to the content script of every frame
+    if (enabled && hasActiveSimulation(config)) {
+      const responses = await sendToFrames(tabId, { action: 'applyFilter', config });
+      const failure = responses.find(isErrorResponse);
+      if (failure) {
+        logger.warn(`Tab ${tabId} rejected the filter:`, failure.error);
+        result = failure;
+      }
     } else {
-      await chrome.tabs.sendMessage(tabId, { action: 'removeFilter' });
+      // Removing the filter also ends the comparison
+      tabComparisons.delete(tabId);
+      await sendToFrames(tabId, { action: 'removeFilter' });
     }
     
     // Save to storage
-    await setCurrentFilter(config);
-    await setIsEnabled(enabled);
+    if (persist) {
+      await setCurrentFilter(config);
+      await setIsEnabled(enabled);
+    }
     
     // Add to history if enabled
-    if (enabled && config.type !== 'normal') {
+    if (recordHistory && enabled && hasActiveSimulation(config)) {
       const tab = await chrome.tabs.get(tabId);
-      await addToHistory(config.type, config.severity, tab.url);
+      await addToHistory(config, tab.url);
     }
   } catch (error) {
     logger.error('Error applying filter to tab:', error);
+    result = toErrorResponse(error);
+  }
+  return result;
+}
+
+/**
+ * Get the tab a message is about: the sender's own tab for content
+ * scripts (e.g. the floating toolbar), the tab DevTools inspects, or the
+ * active tab for the popup
+ */
+async function getTargetTabId(
+  sender: chrome.runtime.MessageSender,
+  message: { action: string; [key: string]: unknown }
+): Promise<number | undefined> {
+  if (sender.tab?.id !== undefined) {
+    return sender.tab.id;
+  }
+  if (typeof message.tabId === 'number') {
+    return message.tabId;
   }
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  return tab?.id;
 }
 
 /**
@@ -119,6 +212,45 @@ chrome.runtime.onMessage.addListener((
           return state;
         }
         
+        case 'registerFrame': {
+          const tabId = sender.tab?.id;
+          if (tabId === undefined || sender.frameId === undefined) {
+            return getInitialState();
+          }
+          
+          // Asked before the frame is added, so it does not answer for itself
+          const isCoveredByParent = sender.frameId !== MAIN_FRAME_ID && await isFrameCovered(tabId, sender.frameId);
+          const frames = tabFrames.get(tabId) ?? new Set<number>();
+          frames.add(sender.frameId);
+          tabFrames.set(tabId, frames);
+          
+          // Late frames follow the tab's current state, not just the stored default
+          const state = tabFilters.get(tabId) ?? await getInitialState();
+          return { ...state, isCoveredByParent };
+        }
+        
+        case 'setFrameCoverage': {
+          // A frame rendered; its child frames follow
+          const tabId = sender.tab?.id;
+          const frames = message.frames;
+          if (tabId !== undefined && Array.isArray(frames)) {
+            await Promise.all((frames as FrameCoverage[]).map(({ frameId, isCovered }) =>
+              chrome.tabs.sendMessage(tabId, { action: 'setParentCoverage', isCovered }, { frameId }).catch(() => {
+                // The frame's content script has not loaded yet; it asks when it registers
+              })
+            ));
+          }
+          return { success: true };
+        }
+        
+        case 'unregisterFrame': {
+          const tabId = sender.tab?.id;
+          if (tabId !== undefined && sender.frameId !== undefined) {
+            tabFrames.get(tabId)?.delete(sender.frameId);
+          }
+          return { success: true };
+        }
+        
         case 'applyFilter': {
           const tabId = sender.tab?.id;
           if (tabId && message.config) {
@@ -159,10 +291,9 @@ chrome.runtime.onMessage.addListener((
           const config = message.config as FilterConfig;
           const enabled = message.enabled as boolean;
           
-          // Get active tab
-          const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
-          if (tab?.id) {
-            await applyFilterToTab(tab.id, config, enabled);
+          const tabId = await getTargetTabId(sender, message);
+          if (tabId) {
+            return applyFilterToTab(tabId, config, enabled, message.recordHistory !== false, message.persist !== false);
           }
           return { success: true };
         }
@@ -172,13 +303,125 @@ chrome.runtime.onMessage.addListener((
           const currentConfig = await getCurrentFilter();
           const newConfig = { ...currentConfig, severity };
           
-          const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
-          if (tab?.id) {
-            const state = tabFilters.get(tab.id);
-            await applyFilterToTab(tab.id, newConfig, state?.isEnabled ?? false);
+          const tabId = await getTargetTabId(sender, message);
+          if (tabId) {
+            const state = tabFilters.get(tabId);
+            await applyFilterToTab(tabId, newConfig, state?.isEnabled ?? false);
+          }
+          return { success: true };
+        }
+        
+        case 'startElementPicker': {
+          // Only the top frame picks; its selector comes back as applyFilter.
+          // DevTools passes the inspected tab, the popup means the active one.
+          let tabId = typeof message.tabId === 'number' ? message.tabId : undefined;
+          if (tabId === undefined) {
+            const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+            tabId = tab?.id;
+          }
+          if (tabId !== undefined) {
+            await chrome.tabs.sendMessage(
+              tabId,
+              { action: 'startElementPicker', config: message.config },
+              { frameId: MAIN_FRAME_ID }
+            );
           }
           return { success: true };
         }
+        
+        case 'setComparison': {
+          const tabId = await getTargetTabId(sender, message);
+          if (!tabId) {
+            return { success: false, isComparing: false };
+          }
+          
+          const response = await chrome.tabs.sendMessage(
+            tabId,
+            { action: 'setComparison', enabled: message.enabled === true },
+            { frameId: MAIN_FRAME_ID }
+          );
+          if (response?.isComparing) {
+            tabComparisons.add(tabId);
+          } else {
+            tabComparisons.delete(tabId);
+          }
+          return response;
+        }
+        
+        case 'getComparison': {
+          const tabId = await getTargetTabId(sender, message);
+          return { isComparing: tabId !== undefined && tabComparisons.has(tabId) };
+        }
+        
+        case 'setCycle': {
+          // The demo cycle runs in the top frame with the saved types and interval
+          const tabId = await getTargetTabId(sender, message);
+          if (!tabId) {
+            return { success: false, isCycling: false };
+          }
+          
+          const { cycleTypes, cycleInterval } = await getPreferences();
+          return chrome.tabs.sendMessage(
+            tabId,
+            { action: 'setCycle', enabled: message.enabled === true, types: cycleTypes, interval: cycleInterval },
+            { frameId: MAIN_FRAME_ID }
+          );
+        }
+        
+        case 'getCycle': {
+          const tabId = await getTargetTabId(sender, message);
+          if (!tabId) {
+            return { isCycling: false };
+          }
+          
+          const state = await chrome.tabs.sendMessage(tabId, { action: 'getFilterState' }, { frameId: MAIN_FRAME_ID });
+          return { isCycling: state?.isCycling === true };
+        }
+        
+        case 'getPalette':
+        case 'getPageText':
+        case 'getColorOnly':
+        case 'getTextLinks': {
+          // Frames are not inspected; the top frame reports its own document
+          const tabId = await getTargetTabId(sender, message);
+          if (!tabId) {
+            return { success: false };
+          }
+          
+          return chrome.tabs.sendMessage(tabId, { action: message.action }, { frameId: MAIN_FRAME_ID });
+        }
+        
+        case 'highlightElements':
+        case 'clearHighlights': {
+          // Selectors come from a top-frame scan
+          const tabId = await getTargetTabId(sender, message);
+          if (!tabId) {
+            return { success: false };
+          }
+          
+          return chrome.tabs.sendMessage(
+            tabId,
+            { action: message.action, selectors: message.selectors },
+            { frameId: MAIN_FRAME_ID }
+          );
+        }
+        
+        case 'simulatePalette': {
+          const colors: unknown = message.colors;
+          if (!Array.isArray(colors) || !colors.every(color => typeof color === 'string')) {
+            return toErrorResponse(createError(ErrorCodes.INVALID_COLOR, 'colors must be an array of strings'));
+          }
+          const config: unknown = message.config;
+          if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+            return toErrorResponse(createError(ErrorCodes.INVALID_FILTER_TYPE, 'config must be a filter config object'));
+          }
+          try {
+            return { success: true, colors: simulatePalette(colors, normalizeConfig(config as Partial<FilterConfig>)) };
+          } catch (error) {
+            // A color that does not parse keeps its INVALID_COLOR code
+            return toErrorResponse(error);
+          }
+        }
 
         default:
           return { success: false, error: 'Unknown action' };
@@ -208,16 +451,49 @@ chrome.commands.onCommand.addListener(async (command) => {
     } catch (error) {
       logger.error('Error handling keyboard shortcut:', error);
     }
+  } else if (command === 'toggle-lens') {
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      if (tab?.id) {
+        // The lens uses the tab's config even while the filter is off
+        const config = tabFilters.get(tab.id)?.config ?? await getCurrentFilter();
+        await chrome.tabs.sendMessage(tab.id, { action: 'toggleLens', config }, { frameId: MAIN_FRAME_ID });
+      }
+    } catch (error) {
+      logger.error('Error toggling magnifier lens:', error);
+    }
+  } else if (command === 'toggle-cycle') {
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      if (tab?.id) {
+        const { cycleTypes, cycleInterval } = await getPreferences();
+        await chrome.tabs.sendMessage(
+          tab.id,
+          { action: 'toggleCycle', types: cycleTypes, interval: cycleInterval },
+          { frameId: MAIN_FRAME_ID }
+        );
+      }
+    } catch (error) {
+      logger.error('Error toggling demo cycle:', error);
+    }
   }
 });
 
 // Clean up when tab is closed
 chrome.tabs.onRemoved.addListener((tabId) => {
   tabFilters.delete(tabId);
+  tabFrames.delete(tabId);
+  tabComparisons.delete(tabId);
 });
 
 // Restore filter when tab is updated (page reload)
 chrome.tabs.onUpdated.addListener(async (tabId, changeInfo) => {
+  // A new document replaces every frame; they register again as they load
+  if (changeInfo.status === 'loading') {
+    tabFrames.delete(tabId);
+    tabComparisons.delete(tabId);
+  }
+  
   if (changeInfo.status === 'complete') {
     const state = tabFilters.get(tabId);
     const prefs = await getPreferences();
@@ -225,7 +501,7 @@ chrome.tabs.onUpdated.addListener(async (tabId, changeInfo) => {
     if (state && state.isEnabled && prefs.autoApplyOnLoad) {
       // Re-apply filter after page load
       try {
-        await chrome.tabs.sendMessage(tabId, { 
+        await sendToFrames(tabId, { 
           action: 'applyFilter', 
           config: state.config 
         });
@@ -0,0 +1,327 @@
+/**
+ * "Color as the only visual means" detection (WCAG 1.4.1)
+ *
+ * Heuristic rules over the painted elements of the page. Sibling variants
+ * are siblings whose subtrees match in structure and non-color styling:
+ * tag, role, font, borders, and whether they have text, icons or generated
+ * content. Their text and form values may differ. Inline emphasis is
+ * inline text that differs from the text around it only in color. Links
+ * are left out of inline emphasis. Each rule only reports the elements;
+ * scoring them under simulation happens in `lib/color-only.ts`.
+ */
+
+import { blendColors, formatHex } from '../lib/color-utils';
+import type { ColorOnlyFinding, ColorOnlyRuleId, ColorOnlyScan, ColorOnlyVariant } from '../lib/color-only';
+import { getUniqueSelector } from './element-picker';
+import type { PaintedElement } from './page-walker';
+import { BORDER_SIDES, getOwnText, isLinePainted, parseVisibleColor, walkPage } from './page-walker';
+
+// Findings reported at most, most used first
+const MAX_FINDINGS = 200;
+
+// Elements kept as examples per variant
+const MAX_SAMPLES = 3;
+
+// Text styles that set text apart without color
+const TEXT_STYLE_PROPERTIES = [
+  'font-family',
+  'font-size',
+  'font-weight',
+  'font-style',
+  'font-variant-caps',
+  'text-decoration-line',
+  'text-transform',
+  'letter-spacing'
+];
+
+/**
+ * A color an element paints, the part that may be its only difference
+ */
+interface ColorSlot {
+  element: Element;
+  property: string;
+  color: string; // opaque hex
+}
+
+/**
+ * What the rules know about one painted element
+ */
+interface PaintedNode {
+  /** Structure and non-color styling; which slots exist is part of it */
+  shape: string;
+  slots: ColorSlot[];
+  textColor: string | null; // opaque hex, when the element has text of its own
+  textStyle: string;
+  /** No background, border or outline of its own */
+  isPlain: boolean;
+  isInline: boolean;
+}
+
+interface ColorOnlyRule {
+  id: ColorOnlyRuleId;
+  find: (nodes: Map<Element, PaintedNode>) => ColorOnlyFinding[];
+}
+
+function hasGeneratedContent(element: Element, pseudo: '::before' | '::after'): boolean {
+  const { content } = getComputedStyle(element, pseudo);
+  return content !== 'none' && content !== 'normal';
+}
+
+// The kind of control, not its value, so fields with different input match
+function getControlKind(element: Element): string {
+  return element instanceof HTMLInputElement ? `${element.type} ${element.checked}` : '';
+}
+
+function readNode({ element, style, ownBackground, background, around }: PaintedElement): PaintedNode {
+  const slots: ColorSlot[] = [];
+  const addSlot = (property: string, color: string) => slots.push({ element, property, color });
+
+  const ownText = getOwnText(element);
+  // SVG text is painted with its fill
+  const text = element instanceof SVGElement ? null : parseVisibleColor(style.color);
+  const textColor = text && ownText ? formatHex(blendColors(text, background)) : null;
+  if (textColor) {
+    addSlot('color', textColor);
+  }
+  if (ownBackground) {
+    addSlot('background-color', formatHex(background));
+  }
+
+  const borders = BORDER_SIDES.map((side) => {
+    if (!isLinePainted(style, 'border', side)) {
+      return '-';
+    }
+    const color = parseVisibleColor(style.getPropertyValue(`border-${side}-color`));
+    if (color) {
+      addSlot('border-color', formatHex(blendColors(color, around)));
+    }
+    return `${style.getPropertyValue(`border-${side}-width`)} ${style.getPropertyValue(`border-${side}-style`)} ${!!color}`;
+  });
+  const outline = isLinePainted(style, 'outline') ? parseVisibleColor(style.outlineColor) : null;
+  if (outline) {
+    addSlot('outline-color', formatHex(blendColors(outline, around)));
+  }
+
+  let svgPaint = '';
+  if (element instanceof SVGGeometryElement || element instanceof SVGTextContentElement) {
+    const fill = parseVisibleColor(style.fill);
+    const stroke = parseFloat(style.strokeWidth) > 0 ? parseVisibleColor(style.stroke) : null;
+    if (fill) {
+      addSlot('fill', formatHex(blendColors(fill, background)));
+    }
+    if (stroke) {
+      addSlot('stroke', formatHex(blendColors(stroke, background)));
+    }
+    svgPaint = `${!!fill} ${!!stroke} ${style.strokeWidth} ${style.strokeDasharray}`;
+  }
+
+  // Text, values and size are left out: sibling fields differ in all three
+  const textStyle = TEXT_STYLE_PROPERTIES.map(property => style.getPropertyValue(property)).join(' ');
+  const shape = [
+    element.tagName,
+    element.getAttribute('role') ?? '',
+    getControlKind(element),
+    textStyle,
+    !!textColor,
+    !!ownBackground,
+    ...borders,
+    style.borderRadius,
+    outline ? `${style.outlineWidth} ${style.outlineStyle}` : '-',
+    style.backgroundImage === 'none' ? '' : 'image',
+    style.boxShadow === 'none' ? '' : 'shadow',
+    style.listStyleType,
+    style.opacity,
+    svgPaint,
+    hasGeneratedContent(element, '::before'),
+    hasGeneratedContent(element, '::after')
+  ].join('|');
+
+  return {
+    shape,
+    slots,
+    textColor,
+    textStyle,
+    isPlain: !ownBackground && !outline && borders.every(border => border === '-'),
+    isInline: style.display === 'inline'
+  };
+}
+
+/**
+ * Sibling variants: siblings with matching subtrees whose colors differ
+ */
+function findSiblingVariants(nodes: Map<Element, PaintedNode>): ColorOnlyFinding[] {
+  // Subtree signatures are interned to ids, so they stay short on deep pages
+  const ids = new Map<string, number>();
+  const signatures = new Map<Element, number>();
+  const intern = (key: string) => {
+    let id = ids.get(key);
+    if (id === undefined) {
+      id = ids.size;
+      ids.set(key, id);
+    }
+    return id;
+  };
+
+  const getPaintedChildren = (element: Element) => Array.from(element.children).filter(child => nodes.has(child));
+
+  // Nodes arrive in document order, so children are signed before their parents in reverse
+  for (const [element, node] of [...nodes].reverse()) {
+    const children = getPaintedChildren(element).map(child => signatures.get(child));
+    signatures.set(element, intern(`${intern(node.shape)}[${children.join(',')}]`));
+  }
+
+  const collectSlots = (element: Element): ColorSlot[] => [
+    ...(nodes.get(element)?.slots ?? []),
+    ...getPaintedChildren(element).flatMap(collectSlots)
+  ];
+
+  const findings: ColorOnlyFinding[] = [];
+  for (const parent of nodes.keys()) {
+    const groups = new Map<number, Element[]>();
+    for (const child of getPaintedChildren(parent)) {
+      const signature = signatures.get(child);
+      if (signature === undefined) {
+        continue;
+      }
+      groups.set(signature, [...(groups.get(signature) ?? []), child]);
+    }
+
+    for (const members of groups.values()) {
+      if (members.length < 2) {
+        continue;
+      }
+      // Matching signatures have the same slots in the same order
+      const memberSlots = members.map(collectSlots);
+      const differing = memberSlots[0]
+        .map((_, i) => i)
+        .filter(i => memberSlots.some(slots => slots[i].color !== memberSlots[0][i].color))
+        // Border sides painted alike count once
+        .filter((i, n, all) => !all.slice(0, n).some(j => memberSlots.every(slots =>
+          slots[j].element === slots[i].element &&
+          slots[j].property === slots[i].property &&
+          slots[j].color === slots[i].color
+        )));
+      if (differing.length === 0) {
+        continue;
+      }
+
+      const variants = new Map<string, ColorOnlyVariant>();
+      for (const slots of memberSlots) {
+        const colors = differing.map(i => slots[i].color);
+        const key = colors.join(' ');
+        const variant = variants.get(key) ?? { colors, count: 0, selectors: [] };
+        variant.count++;
+        if (variant.selectors.length < MAX_SAMPLES) {
+          variant.selectors.push(getUniqueSelector(slots[differing[0]].element));
+        }
+        variants.set(key, variant);
+      }
+
+      findings.push({
+        rule: 'sibling-variants',
+        properties: differing.map(i => memberSlots[0][i].property),
+        variants: [...variants.values()]
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Inline emphasis: inline text in a text block that only changes color
+ */
+function findInlineEmphasis(nodes: Map<Element, PaintedNode>): ColorOnlyFinding[] {
+  const findings: ColorOnlyFinding[] = [];
+
+  for (const [element, node] of nodes) {
+    const parent = element.parentElement;
+    const around = parent ? nodes.get(parent) : undefined;
+    if (
+      !parent ||
+      !around?.textColor ||
+      !node.textColor ||
+      node.textColor === around.textColor ||
+      !node.isInline ||
+      !node.isPlain ||
+      node.textStyle !== around.textStyle ||
+      element.closest('a')
+    ) {
+      continue;
+    }
+
+    findings.push({
+      rule: 'inline-emphasis',
+      properties: ['color'],
+      variants: [
+        { colors: [around.textColor], count: 1, selectors: [getUniqueSelector(parent)] },
+        { colors: [node.textColor], count: 1, selectors: [getUniqueSelector(element)] }
+      ]
+    });
+  }
+
+  return findings;
+}
+
+const RULES: ColorOnlyRule[] = [
+  { id: 'sibling-variants', find: findSiblingVariants },
+  { id: 'inline-emphasis', find: findInlineEmphasis }
+];
+
+function getCount(finding: ColorOnlyFinding): number {
+  return finding.variants.reduce((sum, variant) => sum + variant.count, 0);
+}
+
+/**
+ * Merge findings with the same rule, properties and colors, such as one
+ * status dot pattern repeated in every card
+ */
+function mergeFindings(findings: ColorOnlyFinding[]): ColorOnlyFinding[] {
+  const merged = new Map<string, ColorOnlyFinding>();
+
+  for (const finding of findings) {
+    const key = [
+      finding.rule,
+      finding.properties.join(' '),
+      ...finding.variants.map(variant => variant.colors.join(' ')).sort()
+    ].join('|');
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, { ...finding, variants: finding.variants.map(variant => ({ ...variant })) });
+      continue;
+    }
+
+    for (const variant of finding.variants) {
+      const target = existing.variants.find(entry => entry.colors.join(' ') === variant.colors.join(' '));
+      if (!target) {
+        continue;
+      }
+      target.count += variant.count;
+      target.selectors = [...target.selectors, ...variant.selectors]
+        .filter((selector, i, all) => all.indexOf(selector) === i)
+        .slice(0, MAX_SAMPLES);
+    }
+  }
+
+  return [...merged.values()];
+}
+
+/**
+ * Find the elements of the page told apart by color alone
+ * @param isOwnElement - Excludes the extension's own elements
+ */
+export function detectColorOnly(isOwnElement: (element: Element) => boolean): ColorOnlyScan {
+  const nodes = new Map<Element, PaintedNode>();
+  const { elementCount, isTruncated } = walkPage(isOwnElement, (painted) => {
+    nodes.set(painted.element, readNode(painted));
+  });
+
+  return {
+    findings: mergeFindings(RULES.flatMap(rule => rule.find(nodes)))
+      .map(finding => ({ ...finding, variants: finding.variants.sort((a, b) => b.count - a.count) }))
+      .sort((a, b) => getCount(b) - getCount(a))
+      .slice(0, MAX_FINDINGS),
+    elementCount,
+    isTruncated
+  };
+}
@@ -0,0 +1,124 @@
+/**
+ * Split-screen comparison divider
+ *
+ * A full-height vertical divider fixed to the viewport. The content script
+ * splits the filter at its position, so normal vision shows on the left and
+ * the simulation on the right. Dragging the handle or using the arrow keys
+ * moves it. It sits in the top layer, so neither side of the filter
+ * recolors it.
+ */
+
+import { mountControl } from './shadow-host';
+
+export const COMPARISON_DIVIDER_ID = 'colorblind-simulator-comparison';
+
+// Keep the handle reachable at either edge
+const MIN_POSITION = 0.02;
+const MAX_POSITION = 0.98;
+
+// Arrow key step as a fraction of the viewport width
+const KEYBOARD_STEP = 0.02;
+
+let divider: HTMLDivElement | null = null;
+let simulatedLabel: HTMLSpanElement | null = null;
+
+function clampPosition(position: number): number {
+  return Math.max(MIN_POSITION, Math.min(MAX_POSITION, position));
+}
+
+function createLabel(text: string, side: 'left' | 'right'): HTMLSpanElement {
+  const label = document.createElement('span');
+  label.textContent = text;
+  label.style.cssText =
+    `position: absolute; top: 12px; ${side === 'left' ? 'right' : 'left'}: 12px; ` +
+    'padding: 2px 8px; border-radius: 4px; white-space: nowrap; ' +
+    'font: 600 12px/18px system-ui, sans-serif; color: #fff; background: rgba(17, 24, 39, 0.8);';
+  return label;
+}
+
+/**
+ * Show the divider, or update it when it is already shown
+ * @param position - Divider position as a fraction of the viewport width
+ * @param label - Name of the simulation shown on the right
+ * @param onMove - Called with the new position while the divider moves
+ */
+export function showComparisonDivider(
+  position: number,
+  label: string,
+  onMove: (position: number) => void
+): void {
+  if (divider) {
+    divider.style.left = `${clampPosition(position) * 100}%`;
+    if (simulatedLabel) {
+      simulatedLabel.textContent = label;
+    }
+    return;
+  }
+
+  divider = document.createElement('div');
+  divider.id = COMPARISON_DIVIDER_ID;
+  divider.style.cssText =
+    `position: fixed; top: 0; bottom: 0; left: ${clampPosition(position) * 100}%; width: 0; ` +
+    'z-index: 2147483647; pointer-events: none; ' +
+    // Undo the user agent's popover box
+    'right: auto; height: auto; margin: 0; padding: 0; border: 0; overflow: visible; background: none;';
+
+  const line = document.createElement('div');
+  line.style.cssText =
+    'position: absolute; top: 0; bottom: 0; left: -1px; width: 2px; ' +
+    'background: #fff; box-shadow: 0 0 0 1px rgba(17, 24, 39, 0.6);';
+
+  const handle = document.createElement('div');
+  handle.setAttribute('role', 'slider');
+  handle.setAttribute('tabindex', '0');
+  handle.setAttribute('aria-label', 'Comparison divider');
+  handle.setAttribute('aria-valuemin', '0');
+  handle.setAttribute('aria-valuemax', '100');
+  handle.setAttribute('aria-valuenow', String(Math.round(clampPosition(position) * 100)));
+  handle.textContent = '⇔';
+  handle.style.cssText =
+    'position: absolute; top: 50%; left: -16px; width: 32px; height: 32px; margin-top: -16px; ' +
+    'display: flex; align-items: center; justify-content: center; border-radius: 50%; ' +
+    'font: 16px/1 system-ui, sans-serif; color: #111827; background: #fff; ' +
+    'box-shadow: 0 1px 4px rgba(17, 24, 39, 0.5); cursor: ew-resize; pointer-events: auto; ' +
+    'touch-action: none; user-select: none;';
+
+  const move = (next: number) => {
+    const clamped = clampPosition(next);
+    if (divider) {
+      divider.style.left = `${clamped * 100}%`;
+    }
+    handle.setAttribute('aria-valuenow', String(Math.round(clamped * 100)));
+    onMove(clamped);
+  };
+
+  handle.addEventListener('pointerdown', (event) => {
+    event.preventDefault();
+    handle.setPointerCapture(event.pointerId);
+  });
+  handle.addEventListener('pointermove', (event) => {
+    if (handle.hasPointerCapture(event.pointerId)) {
+      move(event.clientX / document.documentElement.clientWidth);
+    }
+  });
+  handle.addEventListener('keydown', (event) => {
+    if (event.key === 'ArrowLeft' || event.key === 'ArrowRight') {
+      event.preventDefault();
+      const current = Number(handle.getAttribute('aria-valuenow')) / 100;
+      move(current + (event.key === 'ArrowLeft' ? -KEYBOARD_STEP : KEYBOARD_STEP));
+    }
+  });
+
+  simulatedLabel = createLabel(label, 'right');
+  divider.append(line, createLabel('Original', 'left'), simulatedLabel, handle);
+  mountControl(divider);
+}
+
+/**
+ * Remove the divider
+ */
+export function hideComparisonDivider(): void {
+  divider?.remove();
+  divider = null;
+  simulatedLabel = null;
+}
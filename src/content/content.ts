@@ -3,12 +3,60 @@
  * 
  * Handles injecting SVG filters into the page and applying/removing
  * color blindness simulation filters.
+ *
+ * Runs in every frame. Each frame registers with the service worker and
+ * filters its own document, unless its parent reports that its own filter
+ * already reaches the frame or keeps it unfiltered on purpose.
  */
 
-import type { FilterConfig } from '../lib/colorblind-filters';
-import { getColorMatrix } from '../lib/colorblind-filters';
+import type { BuiltInColorBlindnessType, FilterConfig, SVGFilterPrimitive } from '../lib/colorblind-filters';
+import {
+  COMPARISON_RESULTS,
+  SVG_FILTER_ID,
+  createDefaultConfig,
+  generateSVGFilterElement,
+  getAllFilterTypes,
+  getComparisonPrimitives,
+  getComparisonSubregions,
+  getDefaultSeverity,
+  getFieldLossLayers,
+  getSVGFilterPrimitives,
+  getSimulationLabel,
+  hasActiveSimulation,
+  isAnomalyType
+} from '../lib/colorblind-filters';
+import { getVisionFieldBackground } from '../lib/low-vision';
+import type { ColorBlindPreferences, ToolbarPosition } from '../lib/storage';
+import {
+  getPreferences,
+  getSiteExclusions,
+  onPreferencesChanged,
+  onSiteExclusionsChanged,
+  updatePreferences
+} from '../lib/storage';
+import { throttle } from '../lib/debounce';
 import { createLogger } from '../lib/logger';
-import { isRestrictedPage } from '../lib/errors';
+import { ErrorCodes, createError, isRestrictedPage, toErrorResponse } from '../lib/errors';
+import {
+  applyElementFilter,
+  applyScopedFilter,
+  findExcludedElements,
+  isCoveredByElementFilter,
+  removeElementFilter,
+  resolveRenderingBackend
+} from './rendering';
+import { startElementPicker } from './element-picker';
+import { COMPARISON_DIVIDER_ID, hideComparisonDivider, showComparisonDivider } from './comparison';
+import { LENS_ID, hideLens, showLens } from './lens';
+import { startFilterGuardian, stopFilterGuardian } from './guardian';
+import type { ToolbarHandlers, ToolbarState } from './toolbar';
+import { TOOLBAR_ID, hideToolbar, isToolbarShown, moveToolbar, showToolbar, updateToolbar } from './toolbar';
+import { CYCLE_CAPTION_ID, isDemoCycling, startDemoCycle, stopDemoCycle } from './demo-cycle';
+import { extractPalette } from './palette-extractor';
+import { extractPageText } from './contrast-extractor';
+import { detectColorOnly } from './color-only-detector';
+import { extractTextLinks } from './link-extractor';
+import { HIGHLIGHTS_ID, hideHighlights, showHighlights } from './highlights';
 
 const logger = createLogger('ContentScript');
 
@@ -20,78 +68,357 @@ if (restrictedCheck.restricted) {
 
 // Filter element ID
 const FILTER_SVG_ID = 'colorblind-simulator-svg';
-const FILTER_ID = 'colorblind-filter';
+const FILTER_ID = SVG_FILTER_ID;
+const VISION_FIELD_ID = 'colorblind-simulator-vision-field';
+
+// Pages can opt elements out of the simulation with this class
+const IGNORE_SELECTOR = '.colorblind-ignore';
 
 // Current state
 let currentConfig: FilterConfig | null = null;
 let isEnabled = false;
+// Preferences that change how the filter is rendered
+type RenderingPreferences = Pick<
+  ColorBlindPreferences,
+  'renderingBackend' | 'lensMode' | 'lensShape' | 'lensSize' | 'lensZoom'
+>;
+let renderingPreferences: RenderingPreferences = {
+  renderingBackend: 'auto',
+  lensMode: 'simulated',
+  lensShape: 'circle',
+  lensSize: 200,
+  lensZoom: 2
+};
+
+function pickRenderingPreferences(preferences: ColorBlindPreferences): RenderingPreferences {
+  const { renderingBackend, lensMode, lensShape, lensSize, lensZoom } = preferences;
+  return { renderingBackend, lensMode, lensShape, lensSize, lensZoom };
+}
+let exclusions: string[] = [];
+
+// Divider position as a fraction of the viewport width, null when not comparing
+let comparisonPosition: number | null = null;
+
+// Whether the magnifier lens is shown; it works with the filter on or off
+let isLensActive = false;
+
+// Last toolbar position saved to the preferences
+let toolbarPosition: ToolbarPosition | null = null;
+
+// Filter state from before the demo cycle, restored when it stops
+let cycleRestore: { config: FilterConfig | null; isEnabled: boolean } | null = null;
+
+// Where applyFilter put the filter, null when nothing is rendered
+type RenderedTarget = 'root' | 'elements' | 'scope' | 'lens';
+let renderedTarget: RenderedTarget | null = null;
+let renderedBody: HTMLElement | null = null;
+
+const isTopFrame = window === window.top;
+
+// Whether the parent frame's rendering already decides how this frame
+// looks, as reported through the service worker
+let isCoveredByParent = false;
+
+/**
+ * Whether this frame's rendering decides how a child frame looks
+ */
+interface FrameCoverage {
+  frameId: number;
+  isCovered: boolean;
+}
+
+// chrome.runtime.getFrameId is not in the extension typings yet
+const runtime = chrome.runtime as typeof chrome.runtime & { getFrameId?: (target: Element) => number };
 
 /**
- * Generate SVG filter string based on configuration
- * Uses the shared getColorMatrix function from colorblind-filters module
+ * Divider position in the user space of the filter on `<html>`
  */
-function generateSVGFilterString(config: FilterConfig): string {
-  const matrix = getColorMatrix(config);
-  return matrix.join(' ');
+function getComparisonX(position: number): number {
+  return Math.round(window.scrollX + position * document.documentElement.clientWidth);
+}
+
+/**
+ * Get the filter primitives for a config, split when comparing
+ * Uses the shared filter builder from colorblind-filters module
+ */
+function getFilterPrimitives(config: FilterConfig): SVGFilterPrimitive[] {
+  const primitives = getSVGFilterPrimitives(config);
+  return comparisonPosition === null
+    ? primitives
+    : getComparisonPrimitives(primitives, getComparisonX(comparisonPosition));
 }
 
 /**
  * Inject SVG filter into the page
+ * @returns false when the config has no filter primitives (nothing to inject)
+ * @throws ExtensionError with code FILTER_APPLICATION_FAILED if the page rejects the filter
  */
-function injectSVGFilter(config: FilterConfig): void {
+function injectSVGFilter(config: FilterConfig): boolean {
   // Remove existing filter
   removeFilter();
 
-  if (config.type === 'normal') {
-    return;
+  if (getSVGFilterPrimitives(config).length === 0) {
+    return false;
   }
 
-  const matrixValues = generateSVGFilterString(config);
+  try {
+    const svg = generateSVGFilterElement(config, getFilterPrimitives(config));
+    if (!svg) {
+      return false;
+    }
+    svg.id = FILTER_SVG_ID;
 
-  // Create SVG element
-  const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
-  svg.setAttribute('id', FILTER_SVG_ID);
-  svg.setAttribute('style', 'position: absolute; width: 0; height: 0; overflow: hidden; pointer-events: none;');
-  svg.setAttribute('aria-hidden', 'true');
+    // Outside <body>, which pages re-render or replace, and available
+    // before <body> exists
+    document.documentElement.appendChild(svg);
+    return true;
+  } catch (error) {
+    throw createError(ErrorCodes.FILTER_APPLICATION_FAILED, `Unable to inject the SVG filter: ${error}`);
+  }
+}
 
-  svg.innerHTML = `
-    <defs>
-      <filter id="${FILTER_ID}" color-interpolation-filters="sRGB">
-        <feColorMatrix type="matrix" values="${matrixValues}"/>
-      </filter>
-    </defs>
-  `;
+/**
+ * Inject the visual field overlay for tunnel vision and central scotoma.
+ * The overlay is fixed to the viewport, so it stays centered while scrolling.
+ */
+function injectVisionField(config: FilterConfig): void {
+  // One overlay for the whole viewport, not one per frame, and none when
+  // only part of the page is simulated
+  if (!isTopFrame || config.scope || isLensActive) {
+    return;
+  }
 
-  // Insert at the beginning of body
-  if (document.body) {
-    document.body.insertBefore(svg, document.body.firstChild);
+  const background = getVisionFieldBackground(getFieldLossLayers(config));
+  if (!background) {
+    return;
   }
+
+  const overlay = document.createElement('div');
+  overlay.id = VISION_FIELD_ID;
+  overlay.setAttribute('aria-hidden', 'true');
+  overlay.style.cssText =
+    'position: fixed; inset: 0; pointer-events: none; z-index: 2147483647;';
+  overlay.style.background = background;
+
+  document.documentElement.appendChild(overlay);
+  updateComparisonSplit();
+}
+
+/**
+ * Check if an element was added by this script and must not be filtered
+ */
+function isOwnElement(element: Element): boolean {
+  return [FILTER_SVG_ID, VISION_FIELD_ID, COMPARISON_DIVIDER_ID, LENS_ID, TOOLBAR_ID, CYCLE_CAPTION_ID, HIGHLIGHTS_ID]
+    .includes(element.id);
 }
 
 /**
- * Apply the CSS filter to the page
+ * Apply the CSS filter to the scoped elements, or to the page with the
+ * preferred rendering backend. A filter on `<html>` cannot spare its
+ * descendants, so excluded elements always switch to per-element filtering.
  */
-function applyFilter(): void {
-  document.documentElement.style.setProperty('filter', `url(#${FILTER_ID})`);
-  document.documentElement.style.setProperty('-webkit-filter', `url(#${FILTER_ID})`);
+function applyFilter(config: FilterConfig): void {
+  const filter = `url(#${FILTER_ID})`;
+  const { renderingBackend, lensMode } = renderingPreferences;
+  // The comparison split is measured from the left edge of <html>
+  const excluded = comparisonPosition === null
+    ? findExcludedElements([IGNORE_SELECTOR, ...exclusions], isOwnElement)
+    : [];
+  
+  if (isLensActive) {
+    // The lens sits on <html>, so an inverse lens needs the page filtered per element
+    if (lensMode === 'inverse') {
+      applyElementFilter(filter, config, isOwnElement, excluded);
+      renderedTarget = 'elements';
+    } else {
+      renderedTarget = 'lens';
+    }
+    showLens({
+      shape: renderingPreferences.lensShape,
+      size: renderingPreferences.lensSize,
+      zoom: renderingPreferences.lensZoom,
+      filter: lensMode === 'simulated' ? filter : null
+    }, isOwnElement);
+  } else if (comparisonPosition !== null) {
+    document.documentElement.style.setProperty('filter', filter);
+    document.documentElement.style.setProperty('-webkit-filter', filter);
+    renderedTarget = 'root';
+  } else if (config.scope) {
+    const count = applyScopedFilter(filter, config.scope, config, isOwnElement, excluded);
+    logger.debug(`Filtered ${count} elements matching "${config.scope}"`);
+    renderedTarget = 'scope';
+  } else if (excluded.length > 0 || resolveRenderingBackend(renderingBackend, isOwnElement) === 'elements') {
+    const count = applyElementFilter(filter, config, isOwnElement, excluded);
+    logger.debug(`Filtered ${count} elements, excluding ${excluded.length}`);
+    renderedTarget = 'elements';
+  } else {
+    document.documentElement.style.setProperty('filter', filter);
+    document.documentElement.style.setProperty('-webkit-filter', filter);
+    renderedTarget = 'root';
+  }
   
   // Add class for potential CSS hooks
   document.documentElement.classList.add('colorblind-filter-active');
+
+  renderedBody = document.body;
+  startFilterGuardian({ check: findFilterDamage, restore: restoreFilter });
+}
+
+/**
+ * Check if an element matches, or contains an element matching, any of
+ * the selectors. Invalid selectors are skipped.
+ */
+function containsMatch(element: Element, selectors: string[]): boolean {
+  return selectors.some(selector => {
+    try {
+      return element.matches(selector) || element.querySelector(selector) !== null;
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Find what the page did to the rendered filter, for the guardian
+ * @param added - Elements the page added since the last check
+ * @returns A short description of the damage, or null when the filter is intact
+ */
+function findFilterDamage(added: Element[]): string | null {
+  if (!document.getElementById(FILTER_SVG_ID)) {
+    return 'filter definitions removed';
+  }
+  if (renderedTarget === 'root' && !document.documentElement.style.getPropertyValue('filter').includes(FILTER_ID)) {
+    return 'root filter style removed';
+  }
+  if (isLensActive && !document.getElementById(LENS_ID)) {
+    return 'lens removed';
+  }
+  if (renderedTarget !== 'root' && document.body !== renderedBody) {
+    return 'body replaced';
+  }
+
+  // This script's own elements all live outside <body>
+  const body = document.body;
+  const pageElements = added.filter(element => body?.contains(element));
+  if (pageElements.length === 0) {
+    return null;
+  }
+
+  // New elements the page filter does not reach yet
+  const scope = currentConfig?.scope;
+  if (renderedTarget === 'scope' && scope &&
+    pageElements.some(element => !isCoveredByElementFilter(element) && containsMatch(element, [scope]))) {
+    return 'new elements match the scope';
+  }
+  if (renderedTarget === 'elements' && pageElements.some(element => !isCoveredByElementFilter(element))) {
+    return 'new elements added';
+  }
+
+  // New elements that must be kept out of the filter
+  const keepsExclusions = renderedTarget !== 'lens' && comparisonPosition === null;
+  if (keepsExclusions && pageElements.some(element => containsMatch(element, [IGNORE_SELECTOR, ...exclusions]))) {
+    return 'new excluded elements added';
+  }
+
+  return null;
+}
+
+/**
+ * Check if this frame's filter reaches a child frame, or leaves it
+ * unfiltered on purpose because it is excluded
+ */
+function coversChildFrame(frame: Element): boolean {
+  if (isCoveredByParent || renderedTarget === 'root') {
+    return true;
+  }
+  if (renderedTarget === 'elements' || renderedTarget === 'scope') {
+    return isCoveredByElementFilter(frame) || [IGNORE_SELECTOR, ...exclusions].some(selector => {
+      try {
+        return frame.closest(selector) !== null;
+      } catch {
+        return false;
+      }
+    });
+  }
+  return false;
+}
+
+/**
+ * Get the coverage of every child frame Chrome knows the id of
+ */
+function getChildFrameCoverage(): FrameCoverage[] {
+  const { getFrameId } = runtime;
+  if (!getFrameId) {
+    return [];
+  }
+  return Array.from(document.querySelectorAll('iframe, frame')).flatMap((frame) => {
+    const frameId = getFrameId.call(runtime, frame);
+    return frameId >= 0 ? [{ frameId, isCovered: coversChildFrame(frame) }] : [];
+  });
+}
+
+/**
+ * Tell the child frames, through the service worker, whether they still
+ * have to filter themselves after this frame rendered
+ */
+function reportFrameCoverage(): void {
+  const frames = getChildFrameCoverage();
+  if (frames.length === 0) {
+    return;
+  }
+  chrome.runtime.sendMessage({ action: 'setFrameCoverage', frames }).catch((error) => {
+    logger.debug('Error reporting frame coverage:', error);
+  });
+}
+
+/**
+ * Follow the parent frame's report, rendering or removing this frame's filter
+ */
+function setCoveredByParent(isCovered: boolean): void {
+  if (isTopFrame || isCovered === isCoveredByParent) {
+    return;
+  }
+  isCoveredByParent = isCovered;
+  if ((isEnabled || isLensActive) && currentConfig) {
+    renderFilter(currentConfig);
+  } else {
+    reportFrameCoverage();
+  }
+}
+
+/**
+ * Render the current filter again after the page damaged it
+ */
+function restoreFilter(): void {
+  if ((isEnabled || isLensActive) && currentConfig) {
+    try {
+      renderFilter(currentConfig);
+    } catch (error) {
+      logger.error('Error restoring filter:', error);
+    }
+  }
 }
 
 /**
  * Remove the filter from the page
  */
 function removeFilter(): void {
+  stopFilterGuardian();
+  renderedTarget = null;
+  renderedBody = null;
+
   // Remove SVG element
   const existingSvg = document.getElementById(FILTER_SVG_ID);
   if (existingSvg) {
     existingSvg.remove();
   }
 
-  // Remove CSS filter
+  document.getElementById(VISION_FIELD_ID)?.remove();
+
+  // Remove CSS filter from whichever backend set it
   document.documentElement.style.removeProperty('filter');
   document.documentElement.style.removeProperty('-webkit-filter');
+  removeElementFilter();
   
   // Remove class
   document.documentElement.classList.remove('colorblind-filter-active');
@@ -103,14 +430,30 @@ function removeFilter(): void {
 function applyColorBlindFilter(config: FilterConfig): void {
   currentConfig = config;
   isEnabled = true;
+  renderFilter(config);
+}
 
-  if (config.type === 'normal') {
+/**
+ * Render a config with the current comparison and lens state
+ */
+function renderFilter(config: FilterConfig): void {
+  // A frame its parent covers is filtered, or kept unfiltered, by the parent
+  if (!hasActiveSimulation(config) || isCoveredByParent) {
+    stopComparison();
+    stopLens();
     removeFilter();
+    reportFrameCoverage();
     return;
   }
 
-  injectSVGFilter(config);
-  applyFilter();
+  if (comparisonPosition !== null) {
+    showComparisonDivider(comparisonPosition, getSimulationLabel(config, true), handleComparisonMove);
+  }
+  if (injectSVGFilter(config)) {
+    applyFilter(config);
+  }
+  injectVisionField(config);
+  reportFrameCoverage();
 }
 
 /**
@@ -118,7 +461,89 @@ function applyColorBlindFilter(config: FilterConfig): void {
  */
 function disableFilter(): void {
   isEnabled = false;
+  stopComparison();
+  stopLens();
   removeFilter();
+  reportFrameCoverage();
+}
+
+/**
+ * Show the magnifier lens with a config, whether or not the filter is on.
+ * Ends a running comparison.
+ */
+function startLens(config: FilterConfig): boolean {
+  if (!isTopFrame || !hasActiveSimulation(config)) {
+    return false;
+  }
+
+  stopComparison();
+  isLensActive = true;
+  currentConfig = config;
+  renderFilter(config);
+  return true;
+}
+
+/**
+ * Remove the lens. The caller re-applies or removes the filter.
+ */
+function stopLens(): void {
+  isLensActive = false;
+  hideLens();
+}
+
+/**
+ * Move the split of the running comparison to the current divider position
+ */
+function updateComparisonSplit(): void {
+  if (comparisonPosition === null) {
+    return;
+  }
+
+  const svg = document.getElementById(FILTER_SVG_ID);
+  const subregions = getComparisonSubregions(getComparisonX(comparisonPosition));
+  for (const side of ['original', 'simulated'] as const) {
+    const primitive = svg?.querySelector(`[result="${COMPARISON_RESULTS[side]}"]`);
+    primitive?.setAttribute('x', subregions[side].x);
+    primitive?.setAttribute('width', subregions[side].width);
+  }
+
+  // The visual field overlay belongs to the simulated side only
+  const overlay = document.getElementById(VISION_FIELD_ID);
+  if (overlay) {
+    overlay.style.clipPath = `inset(0 0 0 ${comparisonPosition * 100}%)`;
+  }
+}
+
+function handleComparisonMove(position: number): void {
+  comparisonPosition = position;
+  updateComparisonSplit();
+}
+
+/**
+ * Compare normal vision (left) with the simulation (right) across a
+ * draggable divider. Later filter changes keep the split.
+ */
+function startComparison(): boolean {
+  if (!isTopFrame || !isEnabled || !currentConfig || !hasActiveSimulation(currentConfig)) {
+    return false;
+  }
+
+  stopLens();
+  comparisonPosition ??= 0.5;
+  window.addEventListener('scroll', updateComparisonSplit, { passive: true });
+  window.addEventListener('resize', updateComparisonSplit);
+  applyColorBlindFilter(currentConfig);
+  return true;
+}
+
+/**
+ * End the comparison. The caller re-applies or removes the filter.
+ */
+function stopComparison(): void {
+  comparisonPosition = null;
+  hideComparisonDivider();
+  window.removeEventListener('scroll', updateComparisonSplit);
+  window.removeEventListener('resize', updateComparisonSplit);
 }
 
 /**
@@ -127,16 +552,145 @@ function disableFilter(): void {
 function toggleFilter(): void {
   if (isEnabled && currentConfig) {
     disableFilter();
-  } else if (currentConfig && currentConfig.type !== 'normal') {
+  } else if (currentConfig && hasActiveSimulation(currentConfig)) {
     applyColorBlindFilter(currentConfig);
   }
 }
 
+/**
+ * Let the user pick the element to scope the simulation to. The picked
+ * selector goes back to the service worker with the rest of the config,
+ * so the tab state and storage stay in sync.
+ */
+function pickScope(config: FilterConfig): void {
+  startElementPicker((selector) => {
+    if (!selector) {
+      return;
+    }
+    chrome.runtime.sendMessage({ action: 'applyFilter', config: { ...config, scope: selector } }).catch((error) => {
+      logger.error('Error applying picked scope:', error);
+    });
+  });
+}
+
+/**
+ * Send a filter change from the toolbar. The service worker applies it to
+ * every frame and answers with applyFilter or removeFilter, which updates
+ * the toolbar.
+ */
+function sendFilter(config: FilterConfig, enabled: boolean, recordHistory = true, persist = true): void {
+  chrome.runtime.sendMessage({ action: 'setFilter', config, enabled, recordHistory, persist }).catch((error) => {
+    logger.error('Error sending filter:', error);
+  });
+}
+
+const sendSeverity = throttle((severity: number) => {
+  chrome.runtime.sendMessage({ action: 'updateSeverity', severity }).catch((error) => {
+    logger.error('Error sending severity from toolbar:', error);
+  });
+}, 100);
+
+function getToolbarState(): ToolbarState {
+  return {
+    config: currentConfig ?? createDefaultConfig(),
+    isEnabled,
+    isComparing: comparisonPosition !== null
+  };
+}
+
+const toolbarHandlers: ToolbarHandlers = {
+  onTypeChange: (type) => {
+    const { config } = getToolbarState();
+    // Same severity rule as the popup
+    const severity = isAnomalyType(type) ? config.severity : getDefaultSeverity(type);
+    const next = { ...config, type, severity, customProfile: undefined };
+    sendFilter(next, hasActiveSimulation(next));
+  },
+  onSeverityChange: sendSeverity,
+  onToggle: () => sendFilter(getToolbarState().config, !isEnabled),
+  onCompareToggle: () => {
+    chrome.runtime.sendMessage({ action: 'setComparison', enabled: comparisonPosition === null }).catch((error) => {
+      logger.error('Error toggling comparison from toolbar:', error);
+    });
+  },
+  onMove: (position) => {
+    if (position.x === toolbarPosition?.x && position.y === toolbarPosition?.y) {
+      return;
+    }
+    toolbarPosition = position;
+    updatePreferences({ toolbarPosition: position }).catch((error) => {
+      logger.error('Error saving toolbar position:', error);
+    });
+  }
+};
+
+/**
+ * Show the floating toolbar in the top frame while the preference is on
+ */
+function applyToolbarPreferences(preferences: ColorBlindPreferences): void {
+  if (!isTopFrame || !preferences.showToolbar) {
+    hideToolbar();
+    return;
+  }
+
+  toolbarPosition = preferences.toolbarPosition;
+  if (isToolbarShown()) {
+    moveToolbar(toolbarPosition);
+  } else {
+    showToolbar(getToolbarState(), toolbarPosition, toolbarHandlers);
+  }
+}
+
+/**
+ * Show one type of the demo cycle in every frame. The steps stay out of
+ * the history and storage, and keep the algorithm, color space and scope.
+ */
+function showCycleType(type: BuiltInColorBlindnessType): void {
+  const base = cycleRestore?.config ?? createDefaultConfig();
+  const { algorithm, colorSpace, scope } = base;
+  sendFilter({ type, severity: getDefaultSeverity(type), algorithm, colorSpace, scope }, true, false, false);
+}
+
+/**
+ * Cycle through the given types, or every type when none are given
+ * @param interval - Seconds per type
+ */
+function startCycle(types: BuiltInColorBlindnessType[], interval: number): boolean {
+  if (!isTopFrame) {
+    return false;
+  }
+
+  // A restart keeps the state from before the first start
+  cycleRestore ??= { config: currentConfig, isEnabled };
+  startDemoCycle({
+    types: types.length > 0 ? types : getAllFilterTypes(),
+    interval: interval * 1000,
+    onStep: showCycleType,
+    onStop: restoreAfterCycle
+  });
+  return true;
+}
+
+/**
+ * Put back the filter from before the cycle
+ */
+function restoreAfterCycle(): void {
+  if (cycleRestore) {
+    sendFilter(cycleRestore.config ?? createDefaultConfig(), cycleRestore.isEnabled, false);
+    cycleRestore = null;
+  }
+}
+
+function stopCycle(): void {
+  stopDemoCycle();
+  restoreAfterCycle();
+}
+
 /**
  * Get current filter state
  */
-function getFilterState(): { isEnabled: boolean; config: FilterConfig | null } {
-  return { isEnabled, config: currentConfig };
+function getFilterState(): { isEnabled: boolean; config: FilterConfig | null; isCycling: boolean } {
+  return { isEnabled, config: currentConfig, isCycling: isDemoCycling() };
 }
 
 // Message types
@@ -162,12 +716,87 @@ interface UpdateSeverityMessage {
   severity: number;
 }
 
+interface SetComparisonMessage {
+  action: 'setComparison';
+  enabled: boolean;
+}
+
+interface ToggleLensMessage {
+  action: 'toggleLens';
+  config: FilterConfig;
+}
+
+interface SetCycleMessage {
+  action: 'setCycle';
+  enabled: boolean;
+  types: BuiltInColorBlindnessType[];
+  interval: number; // seconds per type
+}
+
+interface ToggleCycleMessage {
+  action: 'toggleCycle';
+  types: BuiltInColorBlindnessType[];
+  interval: number; // seconds per type
+}
+
+interface StartElementPickerMessage {
+  action: 'startElementPicker';
+  config: FilterConfig;
+}
+
+interface GetPaletteMessage {
+  action: 'getPalette';
+}
+
+interface GetPageTextMessage {
+  action: 'getPageText';
+}
+
+interface GetColorOnlyMessage {
+  action: 'getColorOnly';
+}
+
+interface GetTextLinksMessage {
+  action: 'getTextLinks';
+}
+
+interface HighlightElementsMessage {
+  action: 'highlightElements';
+  selectors: string[];
+}
+
+interface ClearHighlightsMessage {
+  action: 'clearHighlights';
+}
+
+interface GetFrameCoverageMessage {
+  action: 'getFrameCoverage';
+}
+
+interface SetParentCoverageMessage {
+  action: 'setParentCoverage';
+  isCovered: boolean;
+}
+
 type ContentMessage = 
   | ApplyFilterMessage 
   | RemoveFilterMessage 
   | ToggleFilterMessage 
   | GetStateMessage
-  | UpdateSeverityMessage;
+  | UpdateSeverityMessage
+  | SetComparisonMessage
+  | ToggleLensMessage
+  | SetCycleMessage
+  | ToggleCycleMessage
+  | StartElementPickerMessage
+  | GetPaletteMessage
+  | GetPageTextMessage
+  | GetColorOnlyMessage
+  | GetTextLinksMessage
+  | HighlightElementsMessage
+  | ClearHighlightsMessage
+  | GetFrameCoverageMessage
+  | SetParentCoverageMessage;
 
 // Listen for messages from popup/background
 chrome.runtime.onMessage.addListener((
@@ -206,39 +835,174 @@ chrome.runtime.onMessage.addListener((
         sendResponse({ success: true });
         break;
 
+      case 'setComparison':
+        if (message.enabled) {
+          sendResponse({ success: startComparison(), isComparing: comparisonPosition !== null });
+        } else {
+          stopComparison();
+          if (isEnabled && currentConfig) {
+            applyColorBlindFilter(currentConfig);
+          }
+          sendResponse({ success: true, isComparing: false });
+        }
+        break;
+
+      case 'toggleLens':
+        if (isLensActive) {
+          stopLens();
+          if (isEnabled && currentConfig) {
+            renderFilter(currentConfig);
+          } else {
+            removeFilter();
+          }
+          sendResponse({ success: true, isLensActive: false });
+        } else {
+          sendResponse({ success: startLens(message.config), isLensActive });
+        }
+        break;
+
+      case 'setCycle':
+        if (message.enabled) {
+          sendResponse({ success: startCycle(message.types, message.interval), isCycling: isDemoCycling() });
+        } else {
+          stopCycle();
+          sendResponse({ success: true, isCycling: false });
+        }
+        break;
+
+      case 'toggleCycle':
+        if (isDemoCycling()) {
+          stopCycle();
+        } else {
+          startCycle(message.types, message.interval);
+        }
+        sendResponse({ success: true, isCycling: isDemoCycling() });
+        break;
+
+      case 'startElementPicker':
+        pickScope(message.config);
+        sendResponse({ success: true });
+        break;
+
+      case 'getPalette':
+        sendResponse({ success: true, palette: extractPalette(isOwnElement) });
+        break;
+
+      case 'getPageText':
+        sendResponse({ success: true, text: extractPageText(isOwnElement) });
+        break;
+
+      case 'getColorOnly':
+        sendResponse({ success: true, scan: detectColorOnly(isOwnElement) });
+        break;
+
+      case 'getTextLinks':
+        sendResponse({ success: true, links: extractTextLinks(isOwnElement) });
+        break;
+
+      case 'highlightElements':
+        sendResponse({ success: true, count: showHighlights(message.selectors) });
+        break;
+
+      case 'clearHighlights':
+        hideHighlights();
+        sendResponse({ success: true });
+        break;
+
+      case 'getFrameCoverage':
+        sendResponse({ success: true, frames: getChildFrameCoverage() });
+        break;
+
+      case 'setParentCoverage':
+        setCoveredByParent(message.isCovered);
+        sendResponse({ success: true });
+        break;
+
       default:
         sendResponse({ success: false, error: 'Unknown action' });
     }
   } catch (error) {
     logger.error('Content script error:', error);
-    sendResponse({ success: false, error: String(error) });
+    sendResponse(toErrorResponse(error));
   }
 
+  // Every action can change what the toolbar shows
+  updateToolbar(getToolbarState());
+
   return true; // Keep message channel open for async response
 });
 
-// Initialize - check if there's a stored filter state
+// Initialize - register this frame and pick up the tab's current state,
+// so frames that load late match the rest of the page
 async function initialize(): Promise<void> {
   try {
-    // Request initial state from background
-    const response = await chrome.runtime.sendMessage({ action: 'getInitialState' });
+    const [response, preferences, siteExclusions] = await Promise.all([
+      chrome.runtime.sendMessage({ action: 'registerFrame' }),
+      getPreferences(),
+      getSiteExclusions(window.location.hostname)
+    ]);
+    renderingPreferences = pickRenderingPreferences(preferences);
+    exclusions = siteExclusions;
+    isCoveredByParent = !isTopFrame && response?.isCoveredByParent === true;
     
     if (response && response.isEnabled && response.config) {
       applyColorBlindFilter(response.config);
+    } else if (response?.config) {
+      // Known but off, so the toolbar can turn it on
+      currentConfig = response.config;
     }
+    applyToolbarPreferences(preferences);
   } catch (error) {
     // Background may not be ready yet, that's ok
     logger.debug('Content script initialized, waiting for commands');
   }
 }
 
+// Stop tracking this frame when it is unloaded. Pages kept in the
+// back/forward cache register again when restored.
+function handlePageHide(event: PageTransitionEvent): void {
+  chrome.runtime.sendMessage({ action: 'unregisterFrame' }).catch(() => {
+    // Extension context may already be gone
+  });
+  if (event.persisted) {
+    window.addEventListener('pageshow', initialize, { once: true });
+  }
+}
+
+// Re-render when the backend or lens preferences change, and follow the
+// toolbar preferences
+function handlePreferencesChange(preferences: ColorBlindPreferences): void {
+  applyToolbarPreferences(preferences);
+
+  const changed = (Object.keys(renderingPreferences) as (keyof RenderingPreferences)[])
+    .some(key => preferences[key] !== renderingPreferences[key]);
+  if (!changed) {
+    return;
+  }
+  renderingPreferences = pickRenderingPreferences(preferences);
+  if ((isEnabled || isLensActive) && currentConfig) {
+    renderFilter(currentConfig);
+  }
+}
+
+// Re-render when this site's exclusions are edited
+function handleExclusionsChange(selectors: string[]): void {
+  exclusions = selectors;
+  if ((isEnabled || isLensActive) && currentConfig) {
+    renderFilter(currentConfig);
+  }
+}
+
 // Run initialization when DOM is ready (skip on restricted pages)
 if (!restrictedCheck.restricted) {
+  onPreferencesChanged(handlePreferencesChange);
+  onSiteExclusionsChanged(window.location.hostname, handleExclusionsChange);
   if (document.readyState === 'loading') {
     document.addEventListener('DOMContentLoaded', initialize);
   } else {
     initialize();
   }
+  window.addEventListener('pagehide', handlePageHide);
 }
 
 // Export for potential testing
@@ -0,0 +1,65 @@
+/**
+ * Text contrast extraction
+ *
+ * Samples the text the page paints: for every element with text of its
+ * own, the text color blended over the background behind it and the font
+ * size and weight that decide the WCAG large-text rules. Elements with the
+ * same combination are grouped into one sample.
+ */
+
+import { blendColors, formatHex } from '../lib/color-utils';
+import type { PageText, TextSample } from '../lib/contrast';
+import { getUniqueSelector } from './element-picker';
+import { getOwnText, parseVisibleColor, walkPage } from './page-walker';
+
+// Characters of text kept per sample
+const MAX_TEXT_LENGTH = 40;
+
+// Elements kept as examples per sample
+const MAX_SAMPLES = 3;
+
+/**
+ * Extract the text samples of the page
+ * @param isOwnElement - Excludes the extension's own elements
+ */
+export function extractPageText(isOwnElement: (element: Element) => boolean): PageText {
+  const samples = new Map<string, Omit<TextSample, 'selectors'> & { elements: Element[] }>();
+
+  const { elementCount, isTruncated } = walkPage(isOwnElement, ({ element, style, background }) => {
+    // SVG text is painted with its fill, which has no text contrast rules of its own
+    const color = element instanceof SVGElement ? null : parseVisibleColor(style.color);
+    const text = color ? getOwnText(element) : '';
+    if (!color || !text) {
+      return;
+    }
+
+    const foreground = formatHex(blendColors(color, background));
+    const behind = formatHex(background);
+    const fontSize = parseFloat(style.fontSize);
+    const fontWeight = parseInt(style.fontWeight, 10) || 400;
+    const key = `${foreground} ${behind} ${fontSize} ${fontWeight}`;
+
+    const sample = samples.get(key) ?? {
+      foreground,
+      background: behind,
+      fontSize,
+      fontWeight,
+      text: text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH - 1)}…` : text,
+      count: 0,
+      elements: []
+    };
+    sample.count++;
+    if (sample.elements.length < MAX_SAMPLES) {
+      sample.elements.push(element);
+    }
+    samples.set(key, sample);
+  });
+
+  return {
+    samples: [...samples.values()]
+      .sort((a, b) => b.count - a.count)
+      .map(({ elements, ...sample }) => ({ ...sample, selectors: elements.map(getUniqueSelector) })),
+    elementCount,
+    isTruncated
+  };
+}
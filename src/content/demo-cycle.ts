@@ -0,0 +1,188 @@
+/**
+ * Demo cycle
+ *
+ * Steps through simulation types on a timer, for workshops and demos, and
+ * captions each one on the page with its name and prevalence. The caption
+ * has pause, previous, next and stop buttons. Applying each type is left
+ * to the caller, so every frame of the tab follows along.
+ */
+
+import type { BuiltInColorBlindnessType } from '../lib/colorblind-filters';
+import { FILTER_INFO } from '../lib/colorblind-filters';
+import { createShadowHost, mountControl } from './shadow-host';
+
+export const CYCLE_CAPTION_ID = 'colorblind-simulator-cycle';
+
+export interface DemoCycleOptions {
+  types: BuiltInColorBlindnessType[];
+  interval: number; // ms per type
+  onStep: (type: BuiltInColorBlindnessType) => void;
+  /** Called when the user stops the cycle from the caption */
+  onStop: () => void;
+}
+
+const STYLES = `
+  .caption {
+    display: flex; align-items: center; gap: 16px; padding: 10px 14px; border-radius: 10px;
+    font: 13px/1.4 system-ui, sans-serif; color: #f9fafb; background: rgba(17, 24, 39, 0.9);
+    box-shadow: 0 4px 16px rgba(17, 24, 39, 0.4);
+  }
+  .name { display: block; font-size: 18px; font-weight: 600; }
+  .details { color: #d1d5db; }
+  .controls { display: flex; gap: 4px; }
+  button {
+    font: inherit; color: inherit; background: #1f2937; cursor: pointer;
+    border: 1px solid #374151; border-radius: 6px; min-width: 32px; padding: 4px 8px;
+  }
+  button:hover { background: #374151; }
+  :focus-visible { outline: 2px solid #34d399; outline-offset: 1px; }
+`;
+
+interface CycleState {
+  options: DemoCycleOptions;
+  index: number;
+  isPaused: boolean;
+  timer: ReturnType<typeof setInterval> | null;
+}
+
+interface CaptionElements {
+  host: HTMLElement;
+  name: HTMLElement;
+  details: HTMLElement;
+  pause: HTMLButtonElement;
+}
+
+let cycle: CycleState | null = null;
+let caption: CaptionElements | null = null;
+
+function createButton(text: string, label: string, onClick: () => void): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.textContent = text;
+  button.title = label;
+  button.setAttribute('aria-label', label);
+  button.addEventListener('click', onClick);
+  return button;
+}
+
+function createCaption(): CaptionElements {
+  const { host, shadow } = createShadowHost(CYCLE_CAPTION_ID, STYLES);
+  host.style.setProperty('left', '50%', 'important');
+  host.style.setProperty('bottom', '24px', 'important');
+  host.style.setProperty('transform', 'translateX(-50%)', 'important');
+
+  const container = document.createElement('div');
+  container.className = 'caption';
+
+  // Announce each type as it is shown
+  const text = document.createElement('div');
+  text.setAttribute('aria-live', 'polite');
+  const name = document.createElement('strong');
+  name.className = 'name';
+  const details = document.createElement('span');
+  details.className = 'details';
+  text.append(name, details);
+
+  const controls = document.createElement('div');
+  controls.className = 'controls';
+  const pause = createButton('⏸', 'Pause', togglePause);
+  controls.append(
+    createButton('⏮', 'Previous type', () => step(-1)),
+    pause,
+    createButton('⏭', 'Next type', () => step(1)),
+    createButton('✕', 'Stop cycling', () => {
+      const onStop = cycle?.options.onStop;
+      stopDemoCycle();
+      onStop?.();
+    })
+  );
+
+  container.append(text, controls);
+  shadow.appendChild(container);
+  // In the top layer, so the caption is not shown through the simulation it names
+  mountControl(host);
+
+  return { host, name, details, pause };
+}
+
+function restartTimer(): void {
+  if (!cycle) {
+    return;
+  }
+  if (cycle.timer !== null) {
+    clearInterval(cycle.timer);
+  }
+  cycle.timer = cycle.isPaused ? null : setInterval(() => step(1), cycle.options.interval);
+}
+
+function render(): void {
+  if (!cycle) {
+    return;
+  }
+  if (!caption?.host.isConnected) {
+    caption?.host.remove();
+    caption = createCaption();
+  }
+
+  const { types } = cycle.options;
+  const info = FILTER_INFO[types[cycle.index]];
+  caption.name.textContent = info.name;
+  caption.details.textContent = `${info.prevalence} · ${cycle.index + 1} of ${types.length}`;
+  caption.pause.textContent = cycle.isPaused ? '▶' : '⏸';
+  caption.pause.title = cycle.isPaused ? 'Resume' : 'Pause';
+  caption.pause.setAttribute('aria-label', caption.pause.title);
+}
+
+/**
+ * Show the type `offset` places away, wrapping around, and restart its timer
+ */
+function step(offset: number): void {
+  if (!cycle) {
+    return;
+  }
+  const count = cycle.options.types.length;
+  cycle.index = (cycle.index + offset + count) % count;
+  render();
+  cycle.options.onStep(cycle.options.types[cycle.index]);
+  restartTimer();
+}
+
+function togglePause(): void {
+  if (!cycle) {
+    return;
+  }
+  cycle.isPaused = !cycle.isPaused;
+  restartTimer();
+  render();
+}
+
+/**
+ * Check if the demo cycle is running, paused or not
+ */
+export function isDemoCycling(): boolean {
+  return cycle !== null;
+}
+
+/**
+ * Start cycling from the first type, replacing a running cycle
+ */
+export function startDemoCycle(options: DemoCycleOptions): void {
+  if (options.types.length === 0) {
+    return;
+  }
+  stopDemoCycle();
+  cycle = { options, index: 0, isPaused: false, timer: null };
+  step(0);
+}
+
+/**
+ * Stop cycling and remove the caption. Does not call `onStop`.
+ */
+export function stopDemoCycle(): void {
+  if (cycle && cycle.timer !== null) {
+    clearInterval(cycle.timer);
+  }
+  cycle = null;
+  caption?.host.remove();
+  caption = null;
+}
@@ -0,0 +1,127 @@
+/**
+ * In-page element picker
+ *
+ * Highlights the element under the pointer and reports a CSS selector for
+ * the one the user clicks. Escape cancels. Page handlers never see the
+ * picking click.
+ */
+
+const HIGHLIGHT_ID = 'colorblind-simulator-picker';
+
+let highlight: HTMLDivElement | null = null;
+let hovered: Element | null = null;
+let pickCallback: ((selector: string | null) => void) | null = null;
+
+/**
+ * Build a selector that matches only this element, anchored at the closest
+ * ancestor with a unique id
+ */
+export function getUniqueSelector(element: Element): string {
+  const parts: string[] = [];
+
+  for (let current: Element | null = element; current && current !== document.documentElement; current = current.parentElement) {
+    if (current.id) {
+      const idSelector = `#${CSS.escape(current.id)}`;
+      if (document.querySelectorAll(idSelector).length === 1) {
+        parts.unshift(idSelector);
+        break;
+      }
+    }
+
+    const { tagName } = current;
+    const siblings = current.parentElement
+      ? Array.from(current.parentElement.children).filter(sibling => sibling.tagName === tagName)
+      : [];
+    const tag = tagName.toLowerCase();
+    parts.unshift(siblings.length > 1 ? `${tag}:nth-of-type(${siblings.indexOf(current) + 1})` : tag);
+  }
+
+  return parts.join(' > ') || 'html';
+}
+
+function handleMouseMove(event: MouseEvent): void {
+  const target = document.elementFromPoint(event.clientX, event.clientY);
+  if (!target || target === hovered || !highlight) {
+    return;
+  }
+
+  hovered = target;
+  const rect = target.getBoundingClientRect();
+  highlight.style.transform = `translate(${rect.left}px, ${rect.top}px)`;
+  highlight.style.width = `${rect.width}px`;
+  highlight.style.height = `${rect.height}px`;
+}
+
+function handleClick(event: MouseEvent): void {
+  event.preventDefault();
+  event.stopImmediatePropagation();
+  finish(hovered ? getUniqueSelector(hovered) : null);
+}
+
+// Keep the page from reacting to the presses that make up the picking click
+function swallowEvent(event: Event): void {
+  event.preventDefault();
+  event.stopImmediatePropagation();
+}
+
+function handleKeyDown(event: KeyboardEvent): void {
+  if (event.key === 'Escape') {
+    swallowEvent(event);
+    finish(null);
+  }
+}
+
+function finish(selector: string | null): void {
+  const callback = pickCallback;
+  stopElementPicker();
+  callback?.(selector);
+}
+
+/**
+ * Check if the picker is running
+ */
+export function isPickingElement(): boolean {
+  return pickCallback !== null;
+}
+
+/**
+ * Start picking an element. A running picker is cancelled first.
+ * @param onPick - Called with the picked element's selector, or null when cancelled
+ */
+export function startElementPicker(onPick: (selector: string | null) => void): void {
+  if (pickCallback) {
+    finish(null);
+  }
+
+  pickCallback = onPick;
+  highlight = document.createElement('div');
+  highlight.id = HIGHLIGHT_ID;
+  highlight.setAttribute('aria-hidden', 'true');
+  highlight.style.cssText =
+    'position: fixed; top: 0; left: 0; width: 0; height: 0; pointer-events: none; ' +
+    'z-index: 2147483647; box-sizing: border-box; border: 2px solid #10b981; ' +
+    'background: rgba(16, 185, 129, 0.15);';
+  document.documentElement.appendChild(highlight);
+
+  document.addEventListener('mousemove', handleMouseMove, true);
+  document.addEventListener('mousedown', swallowEvent, true);
+  document.addEventListener('mouseup', swallowEvent, true);
+  document.addEventListener('click', handleClick, true);
+  document.addEventListener('keydown', handleKeyDown, true);
+}
+
+/**
+ * Stop picking without reporting a selector
+ */
+export function stopElementPicker(): void {
+  document.removeEventListener('mousemove', handleMouseMove, true);
+  document.removeEventListener('mousedown', swallowEvent, true);
+  document.removeEventListener('mouseup', swallowEvent, true);
+  document.removeEventListener('click', handleClick, true);
+  document.removeEventListener('keydown', handleKeyDown, true);
+
+  highlight?.remove();
+  highlight = null;
+  hovered = null;
+  pickCallback = null;
+}
@@ -0,0 +1,144 @@
+/**
+ * Filter guardian
+ *
+ * Single-page apps re-render or replace `<body>`, Turbo and PJAX swap it on
+ * navigation, and some frameworks strip nodes they did not create. Any of
+ * these can take the filter definitions or the filter styles with them.
+ * The guardian watches the document while a filter is rendered and asks
+ * the content script to render it again when it is damaged.
+ *
+ * Same-document navigations (`history.pushState`, back/forward) trigger a
+ * check too, through the Navigation API where the browser has it.
+ */
+
+import { createLogger } from '../lib/logger';
+
+const logger = createLogger('FilterGuardian');
+
+export interface FilterGuardianCallbacks {
+  /**
+   * Find what is wrong with the rendered filter
+   * @param added - Elements added to the page since the last check
+   * @returns A short description of the damage, or null when it is intact
+   */
+  check: (added: Element[]) => string | null;
+  /** Render the filter again. Stops and restarts the guardian. */
+  restore: (reason: string) => void;
+}
+
+// Wait for a burst of mutations to settle before checking (ms)
+const CHECK_DELAY = 100;
+
+// A page that keeps removing the filter would otherwise be fought forever
+const MAX_RESTORES = 20;
+const RESTORE_WINDOW = 10000; // ms
+
+// The Navigation API is not in the DOM typings yet
+interface NavigationTarget {
+  addEventListener(type: 'currententrychange', listener: () => void): void;
+  removeEventListener(type: 'currententrychange', listener: () => void): void;
+}
+
+let callbacks: FilterGuardianCallbacks | null = null;
+let observer: MutationObserver | null = null;
+let added: Element[] = [];
+let checkTimer: ReturnType<typeof setTimeout> | null = null;
+// Kept across restarts, since every restore restarts the guardian
+let restoreTimes: number[] = [];
+let isThrottled = false;
+
+function getNavigation(): NavigationTarget | undefined {
+  return (window as Window & { navigation?: NavigationTarget }).navigation;
+}
+
+function runCheck(): void {
+  checkTimer = null;
+  if (!callbacks) {
+    return;
+  }
+
+  const reason = callbacks.check(added.filter(element => element.isConnected));
+  added = [];
+  if (!reason) {
+    return;
+  }
+
+  const now = Date.now();
+  restoreTimes = restoreTimes.filter(time => now - time < RESTORE_WINDOW);
+  if (restoreTimes.length >= MAX_RESTORES) {
+    if (!isThrottled) {
+      isThrottled = true;
+      logger.warn(`The page keeps removing the filter; pausing re-injection for ${RESTORE_WINDOW / 1000}s`);
+    }
+    scheduleCheck(RESTORE_WINDOW);
+    return;
+  }
+
+  isThrottled = false;
+  restoreTimes.push(now);
+  logger.info(`Re-injecting filter: ${reason}`);
+  callbacks.restore(reason);
+}
+
+function scheduleCheck(delay = CHECK_DELAY): void {
+  if (checkTimer === null) {
+    checkTimer = setTimeout(runCheck, delay);
+  }
+}
+
+function handleMutations(records: MutationRecord[]): void {
+  for (const record of records) {
+    record.addedNodes.forEach(node => {
+      if (node instanceof Element) {
+        added.push(node);
+      }
+    });
+  }
+  scheduleCheck();
+}
+
+function handleNavigation(): void {
+  logger.debug(`Same-document navigation to ${window.location.href}`);
+  scheduleCheck();
+}
+
+/**
+ * Watch the document for damage to the rendered filter. Restarting an
+ * active guardian only replaces its callbacks.
+ */
+export function startFilterGuardian(next: FilterGuardianCallbacks): void {
+  callbacks = next;
+  if (observer) {
+    return;
+  }
+
+  observer = new MutationObserver(handleMutations);
+  // Nodes added or removed anywhere, including <body> itself
+  observer.observe(document, { childList: true, subtree: true });
+  // The root filter and its class live on <html>
+  observer.observe(document.documentElement, { attributes: true, attributeFilter: ['style', 'class'] });
+
+  const navigation = getNavigation();
+  if (navigation) {
+    navigation.addEventListener('currententrychange', handleNavigation);
+  } else {
+    window.addEventListener('popstate', handleNavigation);
+  }
+}
+
+/**
+ * Stop watching the document
+ */
+export function stopFilterGuardian(): void {
+  observer?.disconnect();
+  observer = null;
+  callbacks = null;
+  added = [];
+  if (checkTimer !== null) {
+    clearTimeout(checkTimer);
+    checkTimer = null;
+  }
+
+  getNavigation()?.removeEventListener('currententrychange', handleNavigation);
+  window.removeEventListener('popstate', handleNavigation);
+}
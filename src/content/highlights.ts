@@ -0,0 +1,96 @@
+/**
+ * Element highlights
+ *
+ * Outlines elements on the page, such as the offenders an audit found.
+ * Each line box gets its own outline, so a link that wraps is outlined
+ * where it is painted. Outlines are laid out in document coordinates,
+ * scroll with the page, follow resizes and stay until hidden or replaced.
+ */
+
+import { createLogger } from '../lib/logger';
+import { createShadowHost } from './shadow-host';
+
+const logger = createLogger('Highlights');
+
+export const HIGHLIGHTS_ID = 'colorblind-simulator-highlights';
+
+const STYLES = `
+  .box {
+    position: absolute; box-sizing: border-box; pointer-events: none;
+    border: 2px solid #db2777; border-radius: 2px; background: rgba(219, 39, 119, 0.15);
+  }
+`;
+
+let overlay: { host: HTMLElement; shadow: ShadowRoot } | null = null;
+let highlighted: Element[] = [];
+
+function layout(): void {
+  if (!overlay) {
+    return;
+  }
+
+  const { host, shadow } = overlay;
+  const origin = host.getBoundingClientRect();
+  const boxes = highlighted.flatMap(element => Array.from(element.getClientRects())).map((rect) => {
+    const box = document.createElement('div');
+    box.className = 'box';
+    box.style.left = `${rect.left - origin.left}px`;
+    box.style.top = `${rect.top - origin.top}px`;
+    box.style.width = `${rect.width}px`;
+    box.style.height = `${rect.height}px`;
+    return box;
+  });
+  shadow.replaceChildren(...boxes);
+}
+
+function querySelectors(selectors: string[]): Element[] {
+  const elements = new Set<Element>();
+  for (const selector of selectors) {
+    try {
+      document.querySelectorAll(selector).forEach(element => elements.add(element));
+    } catch (error) {
+      logger.warn('Skipping invalid selector:', selector, error);
+    }
+  }
+  return [...elements];
+}
+
+/**
+ * Outline the elements matching any of the selectors, replacing earlier
+ * highlights, and scroll the first into view
+ * @returns Number of elements outlined
+ */
+export function showHighlights(selectors: string[]): number {
+  hideHighlights();
+  highlighted = querySelectors(selectors);
+  if (highlighted.length === 0) {
+    return 0;
+  }
+
+  overlay = createShadowHost(HIGHLIGHTS_ID, STYLES);
+  const { host } = overlay;
+  // Anchored to the document, so outlines scroll with the page
+  host.style.setProperty('position', 'absolute', 'important');
+  host.style.setProperty('top', '0', 'important');
+  host.style.setProperty('left', '0', 'important');
+  host.style.setProperty('width', '0', 'important');
+  host.style.setProperty('height', '0', 'important');
+  host.style.setProperty('pointer-events', 'none', 'important');
+  host.setAttribute('aria-hidden', 'true');
+  document.documentElement.appendChild(host);
+
+  layout();
+  window.addEventListener('resize', layout);
+  highlighted[0].scrollIntoView({ block: 'center' });
+  return highlighted.length;
+}
+
+/**
+ * Remove every highlight
+ */
+export function hideHighlights(): void {
+  window.removeEventListener('resize', layout);
+  overlay?.host.remove();
+  overlay = null;
+  highlighted = [];
+}
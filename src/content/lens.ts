@@ -0,0 +1,273 @@
+/**
+ * Magnifier lens
+ *
+ * A lens that follows the pointer and shows a magnified copy of the page.
+ * The copy is a snapshot of `<body>` refreshed when the page changes, so
+ * the lens can carry a different filter from the page around it: the
+ * simulation over a normal page, or normal vision over a simulated one.
+ *
+ * The snapshot is static: scripts do not run in it, frames and media are
+ * replaced by placeholders and canvases are copied once per refresh. It
+ * lives in a closed shadow root with copies of the page's stylesheets, so
+ * its radio buttons, ids and classes stay out of the page's own radio
+ * groups and queries.
+ */
+
+import type { LensShape } from '../lib/storage';
+import { throttle } from '../lib/debounce';
+import { restoreOriginalStyles } from './rendering';
+
+export const LENS_ID = 'colorblind-simulator-lens';
+
+export interface LensOptions {
+  shape: LensShape;
+  size: number; // px
+  zoom: number;
+  filter: string | null; // CSS filter for the lens contents, null for none
+}
+
+// Height of the rectangular lens relative to its width
+const RECTANGLE_ASPECT = 0.625;
+
+// Minimum time between snapshots while the page keeps changing (ms)
+const SNAPSHOT_INTERVAL = 500;
+
+// Elements that are left out of the snapshot; stylesheets are copied separately
+const SKIPPED_TAGS = new Set(['SCRIPT', 'NOSCRIPT', 'TEMPLATE', 'LINK', 'META', 'STYLE']);
+
+// Elements that would load, play or run again inside the copy
+const PLACEHOLDER_TAGS = new Set(['IFRAME', 'FRAME', 'VIDEO', 'AUDIO', 'OBJECT', 'EMBED']);
+
+let lens: HTMLDivElement | null = null;
+let shadow: ShadowRoot | null = null;
+let stage: HTMLDivElement | null = null;
+let options: LensOptions | null = null;
+let isOwnElement: (element: Element) => boolean = () => false;
+let observer: MutationObserver | null = null;
+let observedBody: HTMLElement | null = null;
+let pointer: { x: number; y: number } | null = null;
+let frame = 0;
+
+function getLensHeight(current: LensOptions): number {
+  return current.shape === 'circle' ? current.size : Math.round(current.size * RECTANGLE_ASPECT);
+}
+
+/**
+ * Copy what cloneNode leaves out or gets wrong for one element
+ * @returns The element to use in place of the copy, or null to drop it
+ */
+function prepareCopy(original: Element, copy: Element): Element | null {
+  if (isOwnElement(original) || SKIPPED_TAGS.has(original.tagName)) {
+    return null;
+  }
+
+  if (PLACEHOLDER_TAGS.has(original.tagName)) {
+    const rect = original.getBoundingClientRect();
+    const placeholder = document.createElement('div');
+    placeholder.style.cssText =
+      `display: inline-block; width: ${rect.width}px; height: ${rect.height}px; background: #e5e7eb;`;
+    return placeholder;
+  }
+
+  if (original instanceof HTMLCanvasElement && copy instanceof HTMLCanvasElement) {
+    try {
+      copy.getContext('2d')?.drawImage(original, 0, 0);
+    } catch {
+      // WebGL or cross-origin canvases cannot be read
+    }
+  }
+
+  if (original instanceof HTMLInputElement && copy instanceof HTMLInputElement) {
+    copy.value = original.value;
+    copy.checked = original.checked;
+  }
+
+  restoreOriginalStyles(original, copy);
+  return copy;
+}
+
+/**
+ * Copy the page's stylesheets, in document order, for the shadow root
+ */
+function copyStylesheets(): Element[] {
+  return Array.from(document.querySelectorAll('style, link[rel~="stylesheet"]'))
+    .filter(sheet => !isOwnElement(sheet))
+    .map(sheet => sheet.cloneNode(true) as Element);
+}
+
+/**
+ * Replace the lens contents with a fresh copy of the page
+ */
+function takeSnapshot(): void {
+  if (!shadow || !stage || !document.body) {
+    return;
+  }
+
+  const copy = document.body.cloneNode(true) as HTMLElement;
+  const replacements = new Map<Element, Element | null>();
+
+  // Walk the original and the copy in step; their structure is identical.
+  // Replacing during the walk would end it, so that happens afterwards.
+  const originals = document.createTreeWalker(document.body, NodeFilter.SHOW_ELEMENT);
+  const copies = document.createTreeWalker(copy, NodeFilter.SHOW_ELEMENT);
+  for (let original = originals.nextNode(), clone = copies.nextNode();
+    original && clone;
+    original = originals.nextNode(), clone = copies.nextNode()) {
+    const replacement = prepareCopy(original as Element, clone as Element);
+    if (replacement !== clone) {
+      replacements.set(clone as Element, replacement);
+    }
+  }
+  replacements.forEach((replacement, clone) => {
+    if (replacement) {
+      clone.replaceWith(replacement);
+    } else {
+      clone.remove();
+    }
+  });
+
+  const root = getComputedStyle(document.documentElement).backgroundColor;
+  const body = getComputedStyle(document.body).backgroundColor;
+  stage.style.background = [root, body].find(color => color !== 'rgba(0, 0, 0, 0)') ?? '#fff';
+  stage.style.width = `${document.documentElement.clientWidth}px`;
+  stage.replaceChildren(copy);
+  shadow.replaceChildren(...copyStylesheets(), stage);
+  shadow.adoptedStyleSheets = [...document.adoptedStyleSheets];
+}
+
+const throttledSnapshot = throttle(takeSnapshot, SNAPSHOT_INTERVAL);
+
+/**
+ * Refresh the snapshot when the current `<body>` changes. Pages that
+ * replace `<body>` are picked up on the next `showLens`.
+ */
+function observeBody(): void {
+  observer ??= new MutationObserver(() => throttledSnapshot());
+  observer.disconnect();
+  observedBody = document.body;
+  if (observedBody) {
+    observer.observe(observedBody, { subtree: true, childList: true, attributes: true, characterData: true });
+  }
+}
+
+/**
+ * Center the lens on the pointer and show the page point under it
+ */
+function position(): void {
+  frame = 0;
+  if (!lens || !stage || !options || !pointer) {
+    return;
+  }
+
+  const height = getLensHeight(options);
+  lens.style.display = 'block';
+  lens.style.transform = `translate(${pointer.x - options.size / 2}px, ${pointer.y - height / 2}px)`;
+
+  const pageX = pointer.x + window.scrollX;
+  const pageY = pointer.y + window.scrollY;
+  stage.style.transform =
+    `translate(${options.size / 2 - pageX * options.zoom}px, ${height / 2 - pageY * options.zoom}px) ` +
+    `scale(${options.zoom})`;
+}
+
+function handlePointerMove(event: PointerEvent): void {
+  pointer = { x: event.clientX, y: event.clientY };
+  if (!frame) {
+    frame = requestAnimationFrame(position);
+  }
+}
+
+function handlePointerLeave(): void {
+  pointer = null;
+  if (lens) {
+    lens.style.display = 'none';
+  }
+}
+
+function applyOptions(current: LensOptions): void {
+  if (!lens) {
+    return;
+  }
+  lens.style.width = `${current.size}px`;
+  lens.style.height = `${getLensHeight(current)}px`;
+  lens.style.borderRadius = current.shape === 'circle' ? '50%' : '8px';
+  lens.style.filter = current.filter ?? 'none';
+}
+
+/**
+ * Check if the lens is shown
+ */
+export function isLensShown(): boolean {
+  return lens !== null;
+}
+
+/**
+ * Show the lens, or update its options when it is already shown
+ * @param ownElement - Excludes the extension's own elements from the copy
+ */
+export function showLens(next: LensOptions, ownElement: (element: Element) => boolean): void {
+  // The page removed the lens, so start over
+  if (lens && !lens.isConnected) {
+    hideLens();
+  }
+
+  options = next;
+  isOwnElement = ownElement;
+
+  if (lens) {
+    if (document.body !== observedBody) {
+      observeBody();
+    }
+    applyOptions(next);
+    throttledSnapshot();
+    position();
+    return;
+  }
+
+  lens = document.createElement('div');
+  lens.id = LENS_ID;
+  lens.setAttribute('aria-hidden', 'true');
+  lens.style.cssText =
+    'position: fixed; top: 0; left: 0; display: none; overflow: hidden; pointer-events: none; ' +
+    'z-index: 2147483647; box-sizing: border-box; border: 2px solid #fff; ' +
+    'box-shadow: 0 0 0 1px rgba(17, 24, 39, 0.6), 0 4px 16px rgba(17, 24, 39, 0.4);';
+
+  stage = document.createElement('div');
+  stage.style.cssText = 'position: absolute; top: 0; left: 0; transform-origin: 0 0;';
+  shadow = lens.attachShadow({ mode: 'closed' });
+  shadow.appendChild(stage);
+  applyOptions(next);
+
+  // Outside <body>, so the element backend never filters it and the
+  // snapshot never contains it
+  document.documentElement.appendChild(lens);
+  takeSnapshot();
+
+  observeBody();
+  window.addEventListener('resize', throttledSnapshot);
+  document.addEventListener('pointermove', handlePointerMove, { passive: true });
+  document.documentElement.addEventListener('pointerleave', handlePointerLeave);
+}
+
+/**
+ * Remove the lens
+ */
+export function hideLens(): void {
+  observer?.disconnect();
+  observer = null;
+  observedBody = null;
+  window.removeEventListener('resize', throttledSnapshot);
+  document.removeEventListener('pointermove', handlePointerMove);
+  document.documentElement.removeEventListener('pointerleave', handlePointerLeave);
+  if (frame) {
+    cancelAnimationFrame(frame);
+    frame = 0;
+  }
+
+  lens?.remove();
+  lens = null;
+  shadow = null;
+  stage = null;
+  options = null;
+  pointer = null;
+}
@@ -0,0 +1,138 @@
+/**
+ * Link-in-text-block extraction
+ *
+ * Finds the inline links inside blocks of text that nothing but color sets
+ * apart from the text around them, for WCAG failure F73. Underlines and
+ * other text decorations, a bottom border, a background, generated
+ * content, and a different font, size, weight, style or case all count as
+ * non-color cues. Links are grouped by their color, the text color around
+ * them and the background.
+ */
+
+import type { RGBAColor } from '../lib/color-utils';
+import { blendColors, formatHex } from '../lib/color-utils';
+import type { LinkSample, PageLinks } from '../lib/contrast';
+import { getUniqueSelector } from './element-picker';
+import { getOwnText, isLinePainted, parseVisibleColor, walkPage } from './page-walker';
+
+// Characters of link text kept per sample
+const MAX_LABEL_LENGTH = 40;
+
+// Links kept per sample, enough to highlight them all on most pages
+const MAX_SELECTORS = 50;
+
+// Bold or not is the cue, not the exact weight
+const BOLD_WEIGHT = 600;
+
+// Font properties that set a link apart besides its weight
+const FONT_PROPERTIES = ['font-family', 'font-size', 'font-style', 'font-variant-caps', 'text-transform'];
+
+// Content that makes a link more than text
+const NON_TEXT_CONTENT = 'img, svg, picture, video, canvas, input';
+
+interface TextStyle {
+  color: string; // opaque hex
+  background: RGBAColor;
+  isBold: boolean;
+  font: string;
+}
+
+function readTextStyle(style: CSSStyleDeclaration, color: RGBAColor, background: RGBAColor): TextStyle {
+  return {
+    color: formatHex(blendColors(color, background)),
+    background,
+    isBold: (parseInt(style.fontWeight, 10) || 400) >= BOLD_WEIGHT,
+    font: FONT_PROPERTIES.map(property => style.getPropertyValue(property)).join(' ')
+  };
+}
+
+function hasGeneratedContent(element: Element): boolean {
+  return (['::before', '::after'] as const).some((pseudo) => {
+    const { content } = getComputedStyle(element, pseudo);
+    return content !== 'none' && content !== 'normal';
+  });
+}
+
+/**
+ * Check if a link shows any cue besides color. Decorations and borders on
+ * the link's descendants count too.
+ */
+function hasNonColorCue(link: Element, style: CSSStyleDeclaration, linkStyle: TextStyle, around: TextStyle): boolean {
+  if (
+    linkStyle.isBold !== around.isBold ||
+    linkStyle.font !== around.font ||
+    formatHex(linkStyle.background) !== formatHex(around.background) ||
+    style.backgroundImage !== 'none' ||
+    hasGeneratedContent(link)
+  ) {
+    return true;
+  }
+
+  return [link, ...Array.from(link.querySelectorAll('*'))].some((element) => {
+    const elementStyle = element === link ? style : getComputedStyle(element);
+    return elementStyle.textDecorationLine !== 'none' || isLinePainted(elementStyle, 'border', 'bottom');
+  });
+}
+
+/**
+ * Extract the links of the page that only color sets apart from their text
+ * @param isOwnElement - Excludes the extension's own elements
+ */
+export function extractTextLinks(isOwnElement: (element: Element) => boolean): PageLinks {
+  // Text styles of the elements with text of their own, to compare links with
+  const textStyles = new Map<Element, TextStyle>();
+  const samples = new Map<string, Omit<LinkSample, 'selectors'> & { elements: Element[] }>();
+
+  const { elementCount, isTruncated } = walkPage(isOwnElement, ({ element, style, background }) => {
+    // SVG text is painted with its fill and SVG links are not text links
+    const color = element instanceof SVGElement ? null : parseVisibleColor(style.color);
+    if (!color) {
+      return;
+    }
+    if (getOwnText(element)) {
+      textStyles.set(element, readTextStyle(style, color, background));
+    }
+
+    const around = element.parentElement && textStyles.get(element.parentElement);
+    const label = element.textContent?.replace(/\s+/g, ' ').trim() ?? '';
+    if (
+      !(element instanceof HTMLAnchorElement) ||
+      !element.hasAttribute('href') ||
+      !around ||
+      !label ||
+      style.display !== 'inline' ||
+      element.querySelector(NON_TEXT_CONTENT)
+    ) {
+      return;
+    }
+
+    const linkStyle = readTextStyle(style, color, background);
+    if (hasNonColorCue(element, style, linkStyle, around)) {
+      return;
+    }
+
+    const behind = formatHex(background);
+    const key = `${linkStyle.color} ${around.color} ${behind}`;
+    const sample = samples.get(key) ?? {
+      foreground: linkStyle.color,
+      text: around.color,
+      background: behind,
+      label: label.length > MAX_LABEL_LENGTH ? `${label.slice(0, MAX_LABEL_LENGTH - 1)}…` : label,
+      count: 0,
+      elements: []
+    };
+    sample.count++;
+    if (sample.elements.length < MAX_SELECTORS) {
+      sample.elements.push(element);
+    }
+    samples.set(key, sample);
+  });
+
+  return {
+    samples: [...samples.values()]
+      .sort((a, b) => b.count - a.count)
+      .map(({ elements, ...sample }) => ({ ...sample, selectors: elements.map(getUniqueSelector) })),
+    elementCount,
+    isTruncated
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * Page walker
+ *
+ * Visits the rendered elements of the page with their computed style and
+ * the opaque color behind them, for the palette and contrast scans.
+ * Translucent backgrounds are blended over what lies behind them;
+ * background images and gradients are not read. Styles the element
+ * backend replaced are put back during the walk, so colors are the page's
+ * own and not simulated.
+ */
+
+import type { RGBAColor } from '../lib/color-utils';
+import { blendColors, parseColor } from '../lib/color-utils';
+import { withOriginalStyles } from './rendering';
+
+// Elements visited at most, so huge pages stay responsive
+const MAX_ELEMENTS = 10000;
+
+// Elements that never paint anything
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'LINK', 'META', 'TEMPLATE', 'NOSCRIPT', 'TITLE']);
+
+// The canvas behind a page without a background
+const WHITE: RGBAColor = { r: 255, g: 255, b: 255, a: 1 };
+
+export const BORDER_SIDES = ['top', 'right', 'bottom', 'left'];
+
+export interface PaintedElement {
+  element: Element;
+  style: CSSStyleDeclaration;
+  /** The element's own background color, null when transparent */
+  ownBackground: RGBAColor | null;
+  /** Opaque color behind the element's content */
+  background: RGBAColor;
+  /** Opaque color around the element, i.e. behind its parent's content */
+  around: RGBAColor;
+}
+
+export interface PageWalk {
+  elementCount: number; // elements visited
+  isTruncated: boolean; // the page has elements that were not visited
+}
+
+/**
+ * Parse a computed color, or return null when it is transparent or not
+ * in a format the parser knows
+ */
+export function parseVisibleColor(value: string): RGBAColor | null {
+  const color = parseColor(value);
+  return color && color.a > 0 ? color : null;
+}
+
+/**
+ * Check if a border side or the outline is drawn
+ * @param side - Border side, for borders
+ */
+export function isLinePainted(style: CSSStyleDeclaration, property: 'border' | 'outline', side?: string): boolean {
+  const prefix = side ? `${property}-${side}` : property;
+  const lineStyle = style.getPropertyValue(`${prefix}-style`);
+  return lineStyle !== 'none' && lineStyle !== 'hidden' && parseFloat(style.getPropertyValue(`${prefix}-width`)) > 0;
+}
+
+/**
+ * Get the text directly inside an element, without its descendants' text
+ */
+export function getOwnText(element: Element): string {
+  return Array.from(element.childNodes)
+    .filter(node => node.nodeType === Node.TEXT_NODE)
+    .map(node => node.textContent ?? '')
+    .join('')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function walk(isOwnElement: (element: Element) => boolean, visit: (painted: PaintedElement) => void): PageWalk {
+  const root = document.documentElement;
+  const rootStyle = getComputedStyle(root);
+  const rootBackground = parseVisibleColor(rootStyle.backgroundColor);
+  const canvas = rootBackground ? blendColors(rootBackground, WHITE) : WHITE;
+  // <html> paints the canvas, so nothing lies around it
+  visit({ element: root, style: rootStyle, ownBackground: rootBackground, background: canvas, around: canvas });
+
+  if (!document.body) {
+    return { elementCount: 1, isTruncated: false };
+  }
+
+  const backgrounds = new Map<Element, RGBAColor>([[root, canvas]]);
+  const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_ELEMENT, {
+    acceptNode: (node) => {
+      const element = node as Element;
+      return isOwnElement(element) || SKIPPED_TAGS.has(element.tagName) || getComputedStyle(element).display === 'none'
+        ? NodeFilter.FILTER_REJECT
+        : NodeFilter.FILTER_ACCEPT;
+    }
+  });
+
+  let elementCount = 1;
+  // The walker starts at <body> itself
+  for (let node: Node | null = walker.currentNode; node; node = walker.nextNode()) {
+    if (elementCount >= MAX_ELEMENTS) {
+      return { elementCount, isTruncated: true };
+    }
+    elementCount++;
+
+    const element = node as Element;
+    const style = getComputedStyle(element);
+    const around = (element.parentElement && backgrounds.get(element.parentElement)) || canvas;
+    const ownBackground = parseVisibleColor(style.backgroundColor);
+    const background = ownBackground ? blendColors(ownBackground, around) : around;
+    backgrounds.set(element, background);
+
+    // Hidden elements can have visible children, so their background is still tracked
+    if (style.visibility === 'visible') {
+      visit({ element, style, ownBackground, background, around });
+    }
+  }
+
+  return { elementCount, isTruncated: false };
+}
+
+/**
+ * Visit `<html>` and every rendered, visible element under `<body>` in
+ * document order, skipping hidden subtrees and the extension's own elements
+ * @param isOwnElement - Excludes the extension's own elements
+ */
+export function walkPage(
+  isOwnElement: (element: Element) => boolean,
+  visit: (painted: PaintedElement) => void
+): PageWalk {
+  return withOriginalStyles(() => walk(isOwnElement, visit));
+}
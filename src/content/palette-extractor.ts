@@ -0,0 +1,135 @@
+/**
+ * Page palette extraction
+ *
+ * Collects the colors the page paints (text, backgrounds, borders,
+ * outlines and SVG fills and strokes) with usage counts and a few
+ * selectors per color. Every color is also paired with the background it
+ * is painted on.
+ */
+
+import type { RGBAColor } from '../lib/color-utils';
+import { blendColors, formatHex } from '../lib/color-utils';
+import type { ColorPair, ColorRole, PagePalette, PaletteColor } from '../lib/palette';
+import { getUniqueSelector } from './element-picker';
+import { BORDER_SIDES, getOwnText, isLinePainted, parseVisibleColor, walkPage } from './page-walker';
+
+// Pairs reported at most, most used first
+const MAX_PAIRS = 500;
+
+// Elements kept as examples per color and pair
+const MAX_SAMPLES = 3;
+
+interface Usage {
+  count: number;
+  samples: Element[];
+}
+
+interface ColorUsage extends Usage {
+  roles: Set<ColorRole>;
+}
+
+interface PairUsage extends Usage {
+  foreground: string;
+  background: string;
+}
+
+function addSample(usage: Usage, element: Element): void {
+  usage.count++;
+  if (usage.samples.length < MAX_SAMPLES && !usage.samples.includes(element)) {
+    usage.samples.push(element);
+  }
+}
+
+function byCount<T extends Usage>(entries: Map<string, T>): [string, T][] {
+  return [...entries].sort(([, a], [, b]) => b.count - a.count);
+}
+
+/**
+ * Extract the palette of the page
+ * @param isOwnElement - Excludes the extension's own elements
+ */
+export function extractPalette(isOwnElement: (element: Element) => boolean): PagePalette {
+  const colors = new Map<string, ColorUsage>();
+  const pairs = new Map<string, PairUsage>();
+
+  const addColor = (color: RGBAColor, role: ColorRole, element: Element) => {
+    const key = formatHex(color);
+    const usage = colors.get(key) ?? { count: 0, samples: [], roles: new Set<ColorRole>() };
+    usage.roles.add(role);
+    addSample(usage, element);
+    colors.set(key, usage);
+  };
+
+  const addPair = (color: RGBAColor, background: RGBAColor, element: Element) => {
+    const foreground = formatHex(blendColors(color, background));
+    const behind = formatHex(background);
+    if (foreground === behind) {
+      return;
+    }
+    const key = `${foreground} ${behind}`;
+    const usage = pairs.get(key) ?? { count: 0, samples: [], foreground, background: behind };
+    addSample(usage, element);
+    pairs.set(key, usage);
+  };
+
+  const { elementCount, isTruncated } = walkPage(isOwnElement, ({ element, style, ownBackground, background, around }) => {
+    if (ownBackground) {
+      addColor(ownBackground, 'background', element);
+      addPair(ownBackground, around, element);
+    }
+
+    // SVG text is painted with its fill
+    const text = element instanceof SVGElement ? null : parseVisibleColor(style.color);
+    if (text && getOwnText(element)) {
+      addColor(text, 'text', element);
+      addPair(text, background, element);
+    }
+
+    // Borders and outlines separate the element from its surroundings
+    const borders = new Set(BORDER_SIDES
+      .filter(side => isLinePainted(style, 'border', side))
+      .map(side => style.getPropertyValue(`border-${side}-color`)));
+    const edges = [...borders].map((value): [string, ColorRole] => [value, 'border']);
+    if (isLinePainted(style, 'outline')) {
+      edges.push([style.outlineColor, 'outline']);
+    }
+    for (const [value, role] of edges) {
+      const color = parseVisibleColor(value);
+      if (color) {
+        addColor(color, role, element);
+        addPair(color, around, element);
+      }
+    }
+
+    if (element instanceof SVGGeometryElement || element instanceof SVGTextContentElement) {
+      const fill = parseVisibleColor(style.fill);
+      if (fill) {
+        addColor(fill, 'fill', element);
+        addPair(fill, background, element);
+      }
+      const stroke = parseFloat(style.strokeWidth) > 0 ? parseVisibleColor(style.stroke) : null;
+      if (stroke) {
+        addColor(stroke, 'stroke', element);
+        addPair(stroke, background, element);
+      }
+    }
+  });
+
+  return {
+    url: window.location.href,
+    colors: byCount(colors).map(([color, usage]): PaletteColor => ({
+      color,
+      count: usage.count,
+      roles: [...usage.roles],
+      selectors: usage.samples.map(getUniqueSelector)
+    })),
+    pairs: byCount(pairs).slice(0, MAX_PAIRS).map(([, usage]): ColorPair => ({
+      foreground: usage.foreground,
+      background: usage.background,
+      count: usage.count,
+      selectors: usage.samples.map(getUniqueSelector)
+    })),
+    elementCount,
+    isTruncated
+  };
+}
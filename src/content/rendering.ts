@@ -0,0 +1,377 @@
+/**
+ * Rendering backends for the content script
+ *
+ * A filter on an element makes it the containing block for its fixed
+ * descendants, so filtering `<html>` can detach fixed headers, modals and
+ * sticky bars from the viewport. The element backend filters the page's
+ * top-level blocks individually instead and never puts a filter on an
+ * ancestor of a fixed or sticky element. Ancestors that have to stay
+ * unfiltered get the text directly inside them wrapped in filtered
+ * elements, and the colors of their own box simulated directly.
+ *
+ * The same descent keeps excluded elements out of every filter, which a
+ * filter on `<html>` cannot do.
+ */
+
+import type { FilterConfig } from '../lib/colorblind-filters';
+import { simulateColor } from '../lib/colorblind-filters';
+import { parseColor } from '../lib/color-utils';
+import type { RenderingBackend } from '../lib/storage';
+
+// Elements that never render anything worth filtering
+const NON_RENDERED_TAGS = new Set(['SCRIPT', 'STYLE', 'LINK', 'META', 'TEMPLATE', 'NOSCRIPT', 'TITLE']);
+
+const PINNED_POSITIONS = new Set(['fixed', 'sticky']);
+
+// Holds the text of an unfiltered ancestor, which a text node cannot be filtered without
+const TEXT_WRAPPER_TAG = 'colorblind-simulator-text';
+
+// Colors an unfiltered ancestor paints in its own box, simulated one by one
+const OWN_PAINT_PROPERTIES = [
+  'background-color',
+  'border-top-color',
+  'border-right-color',
+  'border-bottom-color',
+  'border-left-color',
+  'outline-color'
+];
+
+// Properties whose values embed colors, such as gradients and shadows
+const EMBEDDED_COLOR_PROPERTIES = ['background-image', 'box-shadow'];
+
+const EMBEDDED_COLOR = /rgba?\([^)]*\)/g;
+
+// Inline styles replaced by the element backend, restored on removal
+const savedStyles = new Map<HTMLElement | SVGElement, { property: string; value: string; priority: string }[]>();
+
+// Text nodes the element backend wrapped, unwrapped on removal
+let wrappedText: { wrapper: HTMLElement; text: Text }[] = [];
+
+function saveAndSet(element: HTMLElement | SVGElement, property: string, value: string): void {
+  const saved = savedStyles.get(element) ?? [];
+  if (!saved.some(entry => entry.property === property)) {
+    saved.push({
+      property,
+      value: element.style.getPropertyValue(property),
+      priority: element.style.getPropertyPriority(property)
+    });
+    savedStyles.set(element, saved);
+  }
+  element.style.setProperty(property, value, 'important');
+}
+
+function setStyles(styles: typeof savedStyles): void {
+  for (const [element, saved] of styles) {
+    for (const { property, value, priority } of saved) {
+      if (value) {
+        element.style.setProperty(property, value, priority);
+      } else {
+        element.style.removeProperty(property);
+      }
+    }
+  }
+}
+
+function isStyleable(element: Element): element is HTMLElement | SVGElement {
+  return element instanceof HTMLElement || element instanceof SVGElement;
+}
+
+/**
+ * Find every fixed or sticky element under `<body>`
+ * @param isOwnElement - Excludes the extension's own elements
+ */
+export function findPinnedElements(isOwnElement: (element: Element) => boolean): Element[] {
+  if (!document.body) {
+    return [];
+  }
+
+  const pinned: Element[] = [];
+  const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_ELEMENT, {
+    acceptNode: (node) => (isOwnElement(node as Element) || NON_RENDERED_TAGS.has((node as Element).tagName)
+      ? NodeFilter.FILTER_REJECT
+      : NodeFilter.FILTER_ACCEPT)
+  });
+
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (PINNED_POSITIONS.has(getComputedStyle(node as Element).position)) {
+      pinned.push(node as Element);
+    }
+  }
+
+  return pinned;
+}
+
+/**
+ * Resolve `auto` to the backend that suits the current page
+ */
+export function resolveRenderingBackend(
+  backend: RenderingBackend,
+  isOwnElement: (element: Element) => boolean
+): Exclude<RenderingBackend, 'auto'> {
+  if (backend !== 'auto') {
+    return backend;
+  }
+  return findPinnedElements(isOwnElement).length > 0 ? 'elements' : 'root';
+}
+
+/**
+ * Find every element matching the exclusion selectors. Invalid selectors
+ * are skipped so one bad entry does not disable the rest.
+ */
+export function findExcludedElements(
+  selectors: string[],
+  isOwnElement: (element: Element) => boolean
+): Element[] {
+  const excluded = new Set<Element>();
+  for (const selector of selectors) {
+    try {
+      document.querySelectorAll(selector).forEach(element => {
+        if (!isOwnElement(element)) {
+          excluded.add(element);
+        }
+      });
+    } catch {
+      // Not a valid selector
+    }
+  }
+  return [...excluded];
+}
+
+/**
+ * Filter the given roots, descending into every root or descendant that
+ * contains a kept element, so no ancestor of a kept element is filtered.
+ * Excluded elements are left out entirely.
+ */
+function filterBlocks(
+  roots: Element[],
+  filter: string,
+  kept: Element[],
+  excluded: Set<Element>,
+  isOwnElement: (element: Element) => boolean
+): { targets: Element[]; unfiltered: Element[] } {
+  const containers = new Set<Element>();
+  for (const element of kept) {
+    for (let parent = element.parentElement; parent; parent = parent.parentElement) {
+      containers.add(parent);
+    }
+  }
+
+  const targets: Element[] = [];
+  const unfiltered: Element[] = [];
+  const visit = (element: Element) => {
+    if (isOwnElement(element) || NON_RENDERED_TAGS.has(element.tagName) || excluded.has(element)) {
+      return;
+    }
+    if (containers.has(element)) {
+      unfiltered.push(element);
+      Array.from(element.children).forEach(visit);
+    } else {
+      targets.push(element);
+    }
+  };
+  roots.forEach(visit);
+
+  for (const element of targets) {
+    if (isStyleable(element)) {
+      saveAndSet(element, 'filter', filter);
+    }
+  }
+
+  return { targets, unfiltered };
+}
+
+function isVisibleColor(value: string): boolean {
+  const parsed = parseColor(value);
+  return parsed !== null && parsed.a > 0;
+}
+
+/**
+ * Filter what unfiltered containers paint themselves. Their text is
+ * wrapped in filtered elements. Their own box cannot be filtered without
+ * its descendants, so its colors, gradients and shadows are simulated
+ * instead; background images other than gradients are left as they are.
+ */
+function filterContainers(elements: Element[], filter: string, config: FilterConfig): void {
+  for (const element of elements) {
+    if (!isStyleable(element)) {
+      continue;
+    }
+
+    const style = getComputedStyle(element);
+    // Computed colors in formats the parser does not know are left as they are
+    for (const property of OWN_PAINT_PROPERTIES) {
+      const color = style.getPropertyValue(property);
+      if (isVisibleColor(color)) {
+        saveAndSet(element, property, simulateColor(color, config));
+      }
+    }
+    for (const property of EMBEDDED_COLOR_PROPERTIES) {
+      const value = style.getPropertyValue(property);
+      const simulated = value.replace(EMBEDDED_COLOR, color => (parseColor(color) ? simulateColor(color, config) : color));
+      if (simulated !== value) {
+        saveAndSet(element, property, simulated);
+      }
+    }
+
+    // SVG text cannot hold an HTML wrapper
+    if (element instanceof HTMLElement) {
+      wrapOwnText(element, filter);
+    }
+  }
+}
+
+function wrapOwnText(element: HTMLElement, filter: string): void {
+  for (const node of Array.from(element.childNodes)) {
+    if (!(node instanceof Text) || !node.data.trim()) {
+      continue;
+    }
+    const wrapper = document.createElement(TEXT_WRAPPER_TAG);
+    saveAndSet(wrapper, 'filter', filter);
+    node.replaceWith(wrapper);
+    wrapper.appendChild(node);
+    wrappedText.push({ wrapper, text: node });
+  }
+}
+
+// Put wrapped text back where it was, while the wrappers are kept for rewrapText
+function unwrapText(): void {
+  for (const { wrapper, text } of wrappedText) {
+    if (text.parentNode === wrapper) {
+      wrapper.replaceWith(text);
+    }
+  }
+}
+
+function rewrapText(): void {
+  for (const { wrapper, text } of wrappedText) {
+    if (text.parentNode && text.parentNode !== wrapper) {
+      text.replaceWith(wrapper);
+      wrapper.appendChild(text);
+    }
+  }
+}
+
+/**
+ * Filter the page block by block, leaving ancestors of fixed and sticky
+ * elements and of excluded elements unfiltered. Fixed elements keep the
+ * viewport as their containing block and excluded elements render as they are.
+ * @param filter - CSS filter value, e.g. `url(#colorblind-filter)`
+ * @param excluded - Elements to leave unsimulated
+ * @returns Number of filtered elements
+ */
+export function applyElementFilter(
+  filter: string,
+  config: FilterConfig,
+  isOwnElement: (element: Element) => boolean,
+  excluded: Element[] = []
+): number {
+  if (!document.body) {
+    return 0;
+  }
+
+  const { targets, unfiltered } = filterBlocks(
+    Array.from(document.body.children),
+    filter,
+    [...findPinnedElements(isOwnElement), ...excluded],
+    new Set(excluded),
+    isOwnElement
+  );
+  filterContainers([document.documentElement, document.body, ...unfiltered], filter, config);
+
+  return targets.length;
+}
+
+/**
+ * Filter only the elements matching a selector. Matches inside another
+ * match are skipped, since the outer filter already covers them.
+ * @param filter - CSS filter value, e.g. `url(#colorblind-filter)`
+ * @param selector - CSS selector of the elements to filter
+ * @param excluded - Elements to leave unsimulated inside the matches
+ * @returns Number of filtered elements
+ * @throws DOMException if the selector is invalid
+ */
+export function applyScopedFilter(
+  filter: string,
+  selector: string,
+  config: FilterConfig,
+  isOwnElement: (element: Element) => boolean,
+  excluded: Element[] = []
+): number {
+  const roots = Array.from(document.querySelectorAll(selector))
+    .filter(element => !element.parentElement?.closest(selector));
+  const { targets, unfiltered } = filterBlocks(roots, filter, excluded, new Set(excluded), isOwnElement);
+  filterContainers(unfiltered, filter, config);
+
+  return targets.length;
+}
+
+/**
+ * Check if the element backend already covers an element: it or one of
+ * its ancestors is filtered, or it never renders anything
+ */
+export function isCoveredByElementFilter(element: Element): boolean {
+  if (NON_RENDERED_TAGS.has(element.tagName)) {
+    return true;
+  }
+  for (let current: Element | null = element; current; current = current.parentElement) {
+    const saved = isStyleable(current) ? savedStyles.get(current) : undefined;
+    if (saved?.some(entry => entry.property === 'filter')) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Give a copy of an element the inline styles its original had before
+ * the element backend changed them
+ */
+export function restoreOriginalStyles(original: Element, copy: Element): void {
+  const saved = isStyleable(original) ? savedStyles.get(original) : undefined;
+  if (!saved || !isStyleable(copy)) {
+    return;
+  }
+  for (const { property, value, priority } of saved) {
+    if (value) {
+      copy.style.setProperty(property, value, priority);
+    } else {
+      copy.style.removeProperty(property);
+    }
+  }
+}
+
+/**
+ * Run a function with the inline styles the element backend changed and
+ * the text it wrapped put back, e.g. to read the page's own background
+ * colors. Synchronous, so the page never renders without its filter.
+ */
+export function withOriginalStyles<T>(read: () => T): T {
+  const overrides = [...savedStyles].map(([element, saved]) => ({
+    element,
+    styles: saved.map(({ property }) => ({
+      property,
+      value: element.style.getPropertyValue(property),
+      priority: element.style.getPropertyPriority(property)
+    }))
+  }));
+  setStyles(savedStyles);
+  unwrapText();
+
+  try {
+    return read();
+  } finally {
+    rewrapText();
+    setStyles(new Map(overrides.map(({ element, styles }) => [element, styles])));
+  }
+}
+
+/**
+ * Restore every inline style changed and unwrap the text wrapped by
+ * `applyElementFilter` or `applyScopedFilter`
+ */
+export function removeElementFilter(): void {
+  setStyles(savedStyles);
+  savedStyles.clear();
+  unwrapText();
+  wrappedText = [];
+}
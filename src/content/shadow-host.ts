@@ -0,0 +1,45 @@
+/**
+ * Shadow DOM hosts for the content script's own controls
+ *
+ * A host is a custom element with a closed shadow root styled through an
+ * adopted stylesheet. Page CSS cannot reach inside, page rules for `div`
+ * and the like never match the host, and no markup is parsed.
+ *
+ * Controls are mounted in the top layer, which is painted outside `<html>`:
+ * the filter on `<html>` does not reach them and they stay above the visual
+ * field overlay.
+ */
+
+/**
+ * Create a fixed, topmost host. The caller positions it and appends it.
+ * @param id - Custom element name, also used as the id; must contain a hyphen
+ * @param styles - CSS for the shadow root
+ */
+export function createShadowHost(id: string, styles: string): { host: HTMLElement; shadow: ShadowRoot } {
+  const host = document.createElement(id);
+  host.id = id;
+  host.style.setProperty('position', 'fixed', 'important');
+  host.style.setProperty('z-index', '2147483647', 'important');
+  host.style.setProperty('display', 'block', 'important');
+  host.style.setProperty('margin', '0', 'important');
+
+  const shadow = host.attachShadow({ mode: 'closed' });
+  const sheet = new CSSStyleSheet();
+  sheet.replaceSync(`:host { all: initial; }\n${styles}`);
+  shadow.adoptedStyleSheets = [sheet];
+
+  return { host, shadow };
+}
+
+/**
+ * Append a control to `<html>` and lift it into the top layer where the
+ * browser supports popovers. Without them it stays under the page filter.
+ * Outside `<body>`, so the element backend and re-rendered pages leave it alone.
+ */
+export function mountControl(control: HTMLElement): void {
+  document.documentElement.appendChild(control);
+  if ('showPopover' in control) {
+    control.popover = 'manual';
+    control.showPopover();
+  }
+}
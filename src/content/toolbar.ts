@@ -0,0 +1,285 @@
+/**
+ * Floating toolbar
+ *
+ * Switches simulations from the page itself, so the popup does not have
+ * to cover it. The toolbar lives in a shadow host, out of reach of page CSS.
+ * It only reports what the user did: the content script sends the actions
+ * to the service worker and pushes the resulting state back.
+ */
+
+import type { ColorBlindnessType, FilterConfig } from '../lib/colorblind-filters';
+import {
+  getFilterInfo,
+  getFiltersByCategory,
+  hasActiveSimulation,
+  isSeverityAdjustable
+} from '../lib/colorblind-filters';
+import type { ToolbarPosition } from '../lib/storage';
+import { createShadowHost, mountControl } from './shadow-host';
+
+export const TOOLBAR_ID = 'colorblind-simulator-toolbar';
+
+export interface ToolbarState {
+  config: FilterConfig;
+  isEnabled: boolean;
+  isComparing: boolean;
+}
+
+export interface ToolbarHandlers {
+  onTypeChange: (type: ColorBlindnessType) => void;
+  onSeverityChange: (severity: number) => void;
+  onToggle: () => void;
+  onCompareToggle: () => void;
+  /** Called with the new position once a move ends */
+  onMove: (position: ToolbarPosition) => void;
+}
+
+// Distance from the bottom right corner when no position is remembered
+const DEFAULT_MARGIN = 16;
+
+// Arrow key step when moving the toolbar with the keyboard (px)
+const KEYBOARD_STEP = 10;
+
+const STYLES = `
+  .toolbar {
+    display: flex; align-items: center; gap: 8px; padding: 6px 8px; border-radius: 8px;
+    font: 12px/1.4 system-ui, sans-serif; color: #f9fafb; background: #111827;
+    box-shadow: 0 4px 16px rgba(17, 24, 39, 0.4); user-select: none;
+  }
+  .grip { padding: 0 2px; color: #9ca3af; cursor: move; touch-action: none; }
+  select, button {
+    font: inherit; color: inherit; background: #1f2937;
+    border: 1px solid #374151; border-radius: 6px; padding: 3px 6px; cursor: pointer;
+  }
+  button[aria-pressed="true"] { background: #059669; border-color: #059669; }
+  button:disabled, select:disabled, input:disabled { opacity: 0.5; cursor: not-allowed; }
+  input[type="range"] { width: 80px; margin: 0; accent-color: #10b981; }
+  output { min-width: 4ch; text-align: right; font-variant-numeric: tabular-nums; }
+  :focus-visible { outline: 2px solid #34d399; outline-offset: 1px; }
+`;
+
+interface ToolbarControls {
+  shadow: ShadowRoot;
+  type: HTMLSelectElement;
+  severity: HTMLInputElement;
+  severityValue: HTMLOutputElement;
+  toggle: HTMLButtonElement;
+  compare: HTMLButtonElement;
+}
+
+let host: HTMLElement | null = null;
+let controls: ToolbarControls | null = null;
+let position: ToolbarPosition | null = null;
+
+function createTypeSelect(): HTMLSelectElement {
+  const select = document.createElement('select');
+  select.setAttribute('aria-label', 'Simulation type');
+  for (const [label, types] of Object.entries(getFiltersByCategory())) {
+    const group = document.createElement('optgroup');
+    group.label = label;
+    for (const type of types) {
+      group.appendChild(new Option(getFilterInfo({ type }).name, type));
+    }
+    select.appendChild(group);
+  }
+  return select;
+}
+
+function createButton(text: string): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.textContent = text;
+  return button;
+}
+
+/**
+ * Move the toolbar, keeping it inside the viewport
+ * @param next - Top-left corner, or null for the default corner
+ */
+function place(next: ToolbarPosition | null): void {
+  if (!host) {
+    return;
+  }
+
+  const maxX = Math.max(0, document.documentElement.clientWidth - host.offsetWidth);
+  const maxY = Math.max(0, document.documentElement.clientHeight - host.offsetHeight);
+  const target = next ?? { x: maxX - DEFAULT_MARGIN, y: maxY - DEFAULT_MARGIN };
+  position = {
+    x: Math.round(Math.max(0, Math.min(maxX, target.x))),
+    y: Math.round(Math.max(0, Math.min(maxY, target.y)))
+  };
+  host.style.setProperty('left', `${position.x}px`, 'important');
+  host.style.setProperty('top', `${position.y}px`, 'important');
+}
+
+function handleResize(): void {
+  place(position);
+}
+
+/**
+ * Let the grip move the toolbar by dragging or with the arrow keys
+ */
+function makeDraggable(grip: HTMLElement, onMove: (position: ToolbarPosition) => void): void {
+  let offset: ToolbarPosition | null = null;
+
+  grip.addEventListener('pointerdown', (event) => {
+    if (!host) {
+      return;
+    }
+    event.preventDefault();
+    const rect = host.getBoundingClientRect();
+    offset = { x: event.clientX - rect.left, y: event.clientY - rect.top };
+    grip.setPointerCapture(event.pointerId);
+  });
+  grip.addEventListener('pointermove', (event) => {
+    if (offset && grip.hasPointerCapture(event.pointerId)) {
+      place({ x: event.clientX - offset.x, y: event.clientY - offset.y });
+    }
+  });
+  grip.addEventListener('lostpointercapture', () => {
+    offset = null;
+    if (position) {
+      onMove(position);
+    }
+  });
+  grip.addEventListener('keydown', (event) => {
+    const steps: Record<string, [number, number]> = {
+      ArrowLeft: [-1, 0],
+      ArrowRight: [1, 0],
+      ArrowUp: [0, -1],
+      ArrowDown: [0, 1]
+    };
+    const step = steps[event.key];
+    if (step && position) {
+      event.preventDefault();
+      place({ x: position.x + step[0] * KEYBOARD_STEP, y: position.y + step[1] * KEYBOARD_STEP });
+      onMove(position);
+    }
+  });
+}
+
+/**
+ * Check if the toolbar is shown and the page has not removed it
+ */
+export function isToolbarShown(): boolean {
+  return host?.isConnected ?? false;
+}
+
+/**
+ * Show the toolbar, or update it when it is already shown
+ * @param initialPosition - Remembered top-left corner, or null for the default corner
+ */
+export function showToolbar(
+  state: ToolbarState,
+  initialPosition: ToolbarPosition | null,
+  handlers: ToolbarHandlers
+): void {
+  if (host?.isConnected) {
+    updateToolbar(state);
+    return;
+  }
+  hideToolbar();
+
+  const created = createShadowHost(TOOLBAR_ID, STYLES);
+  const { shadow } = created;
+  host = created.host;
+
+  const toolbar = document.createElement('div');
+  toolbar.className = 'toolbar';
+  toolbar.setAttribute('role', 'toolbar');
+  toolbar.setAttribute('aria-label', 'Color blindness simulator');
+
+  const grip = document.createElement('span');
+  grip.className = 'grip';
+  grip.textContent = '⠿';
+  grip.tabIndex = 0;
+  grip.title = 'Drag to move';
+  grip.setAttribute('aria-label', 'Move toolbar with the arrow keys');
+
+  const type = createTypeSelect();
+  type.addEventListener('change', () => handlers.onTypeChange(type.value as ColorBlindnessType));
+
+  const severity = document.createElement('input');
+  severity.type = 'range';
+  severity.min = '0';
+  severity.max = '100';
+  severity.setAttribute('aria-label', 'Severity');
+  const severityValue = document.createElement('output');
+  severity.addEventListener('input', () => {
+    severityValue.value = `${severity.value}%`;
+    handlers.onSeverityChange(Number(severity.value));
+  });
+
+  const toggle = createButton('');
+  toggle.addEventListener('click', handlers.onToggle);
+  const compare = createButton('Compare');
+  compare.title = 'Normal vision on the left, simulation on the right';
+  compare.addEventListener('click', handlers.onCompareToggle);
+
+  makeDraggable(grip, handlers.onMove);
+  toolbar.append(grip, type, severity, severityValue, toggle, compare);
+  shadow.appendChild(toolbar);
+  controls = { shadow, type, severity, severityValue, toggle, compare };
+  updateToolbar(state);
+
+  mountControl(host);
+  place(initialPosition);
+  window.addEventListener('resize', handleResize);
+}
+
+/**
+ * Show the current simulation in the toolbar
+ */
+export function updateToolbar({ config, isEnabled, isComparing }: ToolbarState): void {
+  if (!controls) {
+    return;
+  }
+  const { shadow, type, severity, severityValue, toggle, compare } = controls;
+
+  // Custom profiles are picked in the popup; show the active one but do not offer it
+  let custom = type.querySelector<HTMLOptionElement>('option[value="custom"]');
+  if (config.type === 'custom') {
+    custom ??= type.appendChild(new Option('', 'custom'));
+    custom.text = getFilterInfo(config).name;
+    custom.disabled = true;
+  } else {
+    custom?.remove();
+  }
+  type.value = config.type;
+
+  // Updates lag behind a slider the user is still moving
+  if (shadow.activeElement !== severity) {
+    severity.value = String(config.severity);
+    severityValue.value = `${config.severity}%`;
+  }
+  severity.disabled = !isSeverityAdjustable(config.type);
+
+  const isActive = hasActiveSimulation(config);
+  toggle.textContent = isEnabled ? 'On' : 'Off';
+  toggle.setAttribute('aria-pressed', String(isEnabled));
+  toggle.setAttribute('aria-label', isEnabled ? 'Turn simulation off' : 'Turn simulation on');
+  toggle.disabled = !isEnabled && !isActive;
+
+  compare.setAttribute('aria-pressed', String(isComparing));
+  compare.disabled = !isEnabled || !isActive;
+}
+
+/**
+ * Move the toolbar to a position saved elsewhere, e.g. by another tab
+ */
+export function moveToolbar(next: ToolbarPosition | null): void {
+  if (next?.x !== position?.x || next?.y !== position?.y) {
+    place(next);
+  }
+}
+
+/**
+ * Remove the toolbar
+ */
+export function hideToolbar(): void {
+  window.removeEventListener('resize', handleResize);
+  host?.remove();
+  host = null;
+  controls = null;
+  position = null;
+}
@@ -0,0 +1,114 @@
+import { useMemo } from 'react';
+import type { SimulationOptions } from '../../lib/colorblind-filters';
+import { FILTER_INFO } from '../../lib/colorblind-filters';
+import type { ColorOnlyScan } from '../../lib/color-only';
+import { COLOR_ONLY_RULES, scoreColorOnlyFindings } from '../../lib/color-only';
+
+// Findings listed before the rest are summarized
+const MAX_LISTED_FINDINGS = 50;
+
+interface ColorOnlyPanelProps {
+  scan: ColorOnlyScan | null;
+  options: SimulationOptions;
+  threshold: number; // ΔE00
+  isScanning: boolean;
+  onScan: () => void;
+}
+
+export function ColorOnlyPanel({ scan, options, threshold, isScanning, onScan }: ColorOnlyPanelProps) {
+  const scores = useMemo(
+    () => (scan ? scoreColorOnlyFindings(scan.findings, threshold, options) : []),
+    [scan, threshold, options]
+  );
+
+  return (
+    <div className="color-only-panel space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Looks for elements told apart by color alone (WCAG 1.4.1): siblings that match in text, size,
+          font and borders but not in color, and inline text that only changes color. Types are listed
+          when the closest colors drop below {threshold} ΔE00, the Page Palette threshold.
+        </p>
+        <button
+          onClick={onScan}
+          disabled={isScanning}
+          className="shrink-0 px-4 py-2 text-sm text-white bg-emerald-600 hover:bg-emerald-700
+                     rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isScanning ? 'Scanning…' : scan ? 'Rescan' : 'Scan Page'}
+        </button>
+      </div>
+
+      {scan && (
+        <>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {scan.findings.length} findings on {scan.elementCount} elements
+            {scan.isTruncated && ' (page only partly scanned)'}
+          </p>
+
+          {scores.length === 0 && (
+            <p className="text-sm text-emerald-600 dark:text-emerald-400">
+              Nothing found that relies on color alone.
+            </p>
+          )}
+
+          <ul className="space-y-2">
+            {scores.slice(0, MAX_LISTED_FINDINGS).map(({ finding, deltaE, collapsesUnder }, index) => (
+              <li key={index} className="bg-gray-50 dark:bg-gray-700/50 rounded-lg px-4 py-2 space-y-1.5">
+                <div className="flex items-center justify-between gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <span title={COLOR_ONLY_RULES[finding.rule].description}>
+                    {COLOR_ONLY_RULES[finding.rule].name}
+                    <span className="ml-2 text-xs text-gray-500 dark:text-gray-400 font-mono">
+                      {finding.properties.join(', ')}
+                    </span>
+                  </span>
+                  <span className="shrink-0 text-xs font-mono text-gray-500 dark:text-gray-400">
+                    {deltaE.toFixed(1)} ΔE00
+                  </span>
+                </div>
+
+                <table className="w-full text-xs text-left text-gray-600 dark:text-gray-400">
+                  <tbody>
+                    {finding.variants.map((variant) => (
+                      <tr key={variant.colors.join(' ')}>
+                        <td className="py-0.5 pr-2 w-px whitespace-nowrap">
+                          {variant.colors.map((color, i) => (
+                            <span
+                              key={i}
+                              className="inline-block w-4 h-4 mr-1 rounded border border-gray-200 dark:border-gray-600 align-middle"
+                              style={{ backgroundColor: color }}
+                              title={`${finding.properties[i]}: ${color}`}
+                            />
+                          ))}
+                        </td>
+                        <td className="py-0.5 pr-2 w-px">×{variant.count}</td>
+                        <td className="py-0.5 font-mono truncate max-w-[24rem]" title={variant.selectors.join('\n')}>
+                          {variant.selectors[0]}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                <p
+                  className={`text-xs ${
+                    collapsesUnder.length > 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'
+                  }`}
+                >
+                  {collapsesUnder.length > 0
+                    ? `Lost under ${collapsesUnder.map(type => FILTER_INFO[type].shortName).join(', ')}`
+                    : 'Stays distinguishable under every type'}
+                </p>
+              </li>
+            ))}
+          </ul>
+          {scores.length > MAX_LISTED_FINDINGS && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              and {scores.length - MAX_LISTED_FINDINGS} more
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { useMemo, useState } from 'react';
+import type { SimulationOptions } from '../../lib/colorblind-filters';
+import { FILTER_INFO } from '../../lib/colorblind-filters';
+import type { PageText, WcagLevel } from '../../lib/contrast';
+import { CONTRAST_REQUIREMENTS, findContrastFailuresByType, isLargeText } from '../../lib/contrast';
+
+// Failures listed per type
+const MAX_LISTED_FAILURES = 50;
+
+interface ContrastPanelProps {
+  pageText: PageText | null;
+  options: SimulationOptions;
+  isScanning: boolean;
+  onScan: () => void;
+}
+
+// Truncate rather than round, so a failing 4.497:1 never reads as 4.50:1
+function formatRatio(ratio: number): string {
+  return `${(Math.floor(ratio * 100) / 100).toFixed(2)}:1`;
+}
+
+export function ContrastPanel({ pageText, options, isScanning, onScan }: ContrastPanelProps) {
+  const [level, setLevel] = useState<WcagLevel>('AA');
+  const results = useMemo(
+    () => (pageText ? findContrastFailuresByType(pageText.samples, level, options) : []),
+    [pageText, level, options]
+  );
+
+  return (
+    <div className="contrast-panel space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Checks the contrast of every text on the inspected page against its background,
+          in normal vision and under each simulation. Large text is at least 24px, or 18.66px when bold.
+        </p>
+        <button
+          onClick={onScan}
+          disabled={isScanning}
+          className="shrink-0 px-4 py-2 text-sm text-white bg-emerald-600 hover:bg-emerald-700
+                     rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isScanning ? 'Scanning…' : pageText ? 'Rescan' : 'Scan Page'}
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2" role="group" aria-label="Conformance level">
+        {(Object.keys(CONTRAST_REQUIREMENTS) as WcagLevel[]).map((value) => (
+          <button
+            key={value}
+            onClick={() => setLevel(value)}
+            aria-pressed={level === value}
+            className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
+              level === value
+                ? 'bg-emerald-500 text-white'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+            }`}
+          >
+            {value}
+          </button>
+        ))}
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {CONTRAST_REQUIREMENTS[level].normal}:1 for text, {CONTRAST_REQUIREMENTS[level].large}:1 for large text
+        </span>
+      </div>
+
+      {pageText && (
+        <>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {pageText.samples.length} text styles on {pageText.elementCount} elements
+            {pageText.isTruncated && ' (page only partly scanned)'}
+          </p>
+
+          <div className="space-y-2">
+            {results.map(({ type, failures }) => (
+              <details key={type} className="bg-gray-50 dark:bg-gray-700/50 rounded-lg px-4 py-2">
+                <summary className="flex items-center justify-between cursor-pointer text-sm text-gray-700 dark:text-gray-300 select-none">
+                  <span>{FILTER_INFO[type].name}</span>
+                  <span
+                    className={`text-xs font-medium ${
+                      failures.length > 0
+                        ? 'text-red-600 dark:text-red-400'
+                        : 'text-emerald-600 dark:text-emerald-400'
+                    }`}
+                  >
+                    {failures.length > 0 ? `${failures.length} failing` : 'All pass'}
+                  </span>
+                </summary>
+
+                {failures.length > 0 && (
+                  <table className="w-full mt-2 text-xs text-left text-gray-600 dark:text-gray-400">
+                    <thead>
+                      <tr className="text-gray-500 dark:text-gray-400">
+                        <th className="py-1 pr-2 font-medium">Text</th>
+                        <th className="py-1 pr-2 font-medium">Ratio</th>
+                        <th className="py-1 pr-2 font-medium">Needs</th>
+                        <th className="py-1 pr-2 font-medium">Uses</th>
+                        <th className="py-1 font-medium">Element</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {failures.slice(0, MAX_LISTED_FAILURES).map(({ sample, ratio, required, simulated }) => (
+                        <tr
+                          key={`${sample.foreground} ${sample.background} ${sample.fontSize} ${sample.fontWeight}`}
+                          className="border-t border-gray-200 dark:border-gray-600"
+                        >
+                          <td className="py-1 pr-2">
+                            <span
+                              className="inline-block px-1.5 py-0.5 rounded max-w-[16rem] truncate align-middle"
+                              style={{ color: simulated.foreground, backgroundColor: simulated.background }}
+                              title={`${sample.foreground} on ${sample.background}, ${sample.fontSize}px, weight ${sample.fontWeight}`}
+                            >
+                              {sample.text}
+                            </span>
+                            {isLargeText(sample.fontSize, sample.fontWeight) && (
+                              <span className="ml-1 text-gray-400">large</span>
+                            )}
+                          </td>
+                          <td className="py-1 pr-2 font-mono">{formatRatio(ratio)}</td>
+                          <td className="py-1 pr-2 font-mono">{required}:1</td>
+                          <td className="py-1 pr-2">{sample.count}</td>
+                          <td className="py-1 font-mono truncate max-w-[20rem]" title={sample.selectors.join('\n')}>
+                            {sample.selectors[0]}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+                {failures.length > MAX_LISTED_FAILURES && (
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    and {failures.length - MAX_LISTED_FAILURES} more
+                  </p>
+                )}
+              </details>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,47 +1,112 @@
 import { useState, useEffect, useCallback } from 'react';
 import { 
+  BuiltInColorBlindnessType,
   ColorBlindnessType, 
+  CustomProfile,
   FilterConfig,
+  SimulationAlgorithm,
+  SimulationLayer,
+  SimulationOptions,
+  ALGORITHM_INFO,
+  FILTER_CATEGORY_LABELS,
   FILTER_INFO,
+  getAllAlgorithms,
+  getDichromacy,
+  getEffectiveAlgorithm,
   getAllFilterTypes,
+  getFilterInfo,
   getFiltersByCategory,
+  getSimulationLabel,
+  hasActiveSimulation,
   isAnomalyType,
+  isSeverityAdjustable,
   getDefaultSeverity,
   isValidType,
-  sanitizeSeverity
+  sanitizeSeverity,
+  simulateColor
 } from '../../lib/colorblind-filters';
+import { isValidColor } from '../../lib/color-utils';
+import type { PagePalette } from '../../lib/palette';
+import type { PageLinks, PageText } from '../../lib/contrast';
+import type { ColorOnlyScan } from '../../lib/color-only';
 import {
   getPreferences,
   getCurrentFilter,
   getIsEnabled,
   setCurrentFilter,
-  setIsEnabled
+  setIsEnabled,
+  getCustomProfiles,
+  saveCustomProfile,
+  deleteCustomProfile,
+  onCurrentFilterChanged,
+  updatePreferences
 } from '../../lib/storage';
 import { createLogger } from '../../lib/logger';
+import { isErrorResponse, fromErrorResponse } from '../../lib/errors';
+import { CustomProfileEditor } from '../../popup/components/CustomProfileEditor';
+import { SimulationStackEditor } from '../../popup/components/SimulationStackEditor';
+import { ScopeControls } from '../../popup/components/ScopeControls';
+import { CycleControls } from '../../popup/components/CycleControls';
+import { PalettePanel } from '../../popup/components/PalettePanel';
+import { ContrastPanel } from './ContrastPanel';
+import { LinkContrastPanel } from './LinkContrastPanel';
+import { ColorOnlyPanel } from './ColorOnlyPanel';
 
 const logger = createLogger('DevToolsPanel');
 
+type ViewMode = 'single' | 'grid' | 'contrast' | 'color-only' | 'palette' | 'profiles';
+
+// Custom profiles share the 'custom' type, so options carry the profile id
+const CUSTOM_VALUE_PREFIX = 'custom:';
+
 export function DevToolsPanel() {
   const [selectedFilter, setSelectedFilter] = useState<ColorBlindnessType>('deuteranopia');
   const [severity, setSeverity] = useState(100);
+  const [options, setOptions] = useState<SimulationOptions>({});
+  const [customProfile, setCustomProfile] = useState<CustomProfile | undefined>();
+  const [customProfiles, setCustomProfiles] = useState<CustomProfile[]>([]);
+  const [layers, setLayers] = useState<SimulationLayer[]>([]);
+  const [scope, setScope] = useState<string | undefined>();
   const [isEnabled, setIsEnabledState] = useState(false);
-  const [gridMode, setGridMode] = useState(false);
+  const [viewMode, setViewMode] = useState<ViewMode>('single');
   const [darkMode, setDarkMode] = useState(false);
+  const [previewColor, setPreviewColor] = useState('#E53935');
+  const [cycleInterval, setCycleInterval] = useState(5);
+  const [cycleTypes, setCycleTypes] = useState<BuiltInColorBlindnessType[]>([]);
+  const [isCycling, setIsCycling] = useState(false);
+  const [palette, setPalette] = useState<PagePalette | null>(null);
+  const [isScanningPalette, setIsScanningPalette] = useState(false);
+  const [deltaEThreshold, setDeltaEThreshold] = useState(10);
+  const [pageText, setPageText] = useState<PageText | null>(null);
+  const [isScanningText, setIsScanningText] = useState(false);
+  const [pageLinks, setPageLinks] = useState<PageLinks | null>(null);
+  const [isScanningLinks, setIsScanningLinks] = useState(false);
+  const [colorOnlyScan, setColorOnlyScan] = useState<ColorOnlyScan | null>(null);
+  const [isScanningColorOnly, setIsScanningColorOnly] = useState(false);
 
   // Load initial state
   useEffect(() => {
     const loadState = async () => {
       try {
-        const [prefs, currentFilter, enabled] = await Promise.all([
+        const [prefs, currentFilter, enabled, profiles] = await Promise.all([
           getPreferences(),
           getCurrentFilter(),
-          getIsEnabled()
+          getIsEnabled(),
+          getCustomProfiles()
         ]);
         
         setSelectedFilter(currentFilter.type || prefs.defaultFilter);
         setSeverity(currentFilter.severity ?? prefs.defaultSeverity);
+        setOptions({ algorithm: currentFilter.algorithm, colorSpace: currentFilter.colorSpace });
+        setCustomProfile(currentFilter.customProfile);
+        setCustomProfiles(profiles);
+        setLayers(currentFilter.layers ?? []);
+        setScope(currentFilter.scope);
         setIsEnabledState(enabled);
         setDarkMode(prefs.darkMode);
+        setCycleInterval(prefs.cycleInterval);
+        setCycleTypes(prefs.cycleTypes);
+        setDeltaEThreshold(prefs.deltaEThreshold);
         
         if (prefs.darkMode) {
           document.documentElement.classList.add('dark');
@@ -54,6 +119,18 @@ export function DevToolsPanel() {
     loadState();
   }, []);
 
+  // Load whether the inspected tab runs the demo cycle
+  useEffect(() => {
+    chrome.runtime.sendMessage({ action: 'getCycle', tabId: chrome.devtools.inspectedWindow.tabId })
+      .then(response => setIsCycling(Boolean(response?.isCycling)))
+      .catch(error => logger.error('Error loading demo cycle state:', error));
+  }, []);
+
+  // Follow scopes picked in the inspected page
+  useEffect(() => onCurrentFilterChanged((config) => {
+    setScope(config.scope);
+  }), []);
+
   // Apply filter
   const applyFilter = useCallback(async (config: FilterConfig, enabled: boolean) => {
     try {
@@ -75,55 +152,276 @@ export function DevToolsPanel() {
   }, []);
 
   // Handle filter change with validation
-  const handleFilterChange = useCallback(async (type: ColorBlindnessType) => {
+  const handleFilterChange = useCallback(async (type: ColorBlindnessType, profile?: CustomProfile) => {
     // Validate filter type
-    if (!isValidType(type)) {
+    if (!isValidType(type) || (type === 'custom' && !profile)) {
       logger.warn('Invalid filter type:', type);
       return;
     }
     
     setSelectedFilter(type);
+    setCustomProfile(profile);
     const newSeverity = isAnomalyType(type) ? severity : getDefaultSeverity(type);
     const sanitized = sanitizeSeverity(newSeverity);
     setSeverity(sanitized);
     
-    if (isEnabled && type !== 'normal') {
-      await applyFilter({ type, severity: sanitized }, true);
-    } else if (type === 'normal') {
-      await applyFilter({ type, severity: sanitized }, false);
+    const newConfig: FilterConfig = { type, severity: sanitized, ...options, customProfile: profile, layers, scope };
+    if (isEnabled && hasActiveSimulation(newConfig)) {
+      await applyFilter(newConfig, true);
+    } else if (!hasActiveSimulation(newConfig)) {
+      await applyFilter(newConfig, false);
       setIsEnabledState(false);
     }
-  }, [severity, isEnabled, applyFilter]);
+  }, [severity, options, layers, scope, isEnabled, applyFilter]);
+  
+  // Decode a select value into a built-in type or a custom profile
+  const handleSelectChange = useCallback((value: string) => {
+    if (value.startsWith(CUSTOM_VALUE_PREFIX)) {
+      const id = value.slice(CUSTOM_VALUE_PREFIX.length);
+      const profile = customProfiles.find(p => p.id === id);
+      if (profile) {
+        handleFilterChange('custom', profile);
+      }
+      return;
+    }
+    handleFilterChange(value as ColorBlindnessType);
+  }, [customProfiles, handleFilterChange]);
 
   // Handle toggle
   const handleToggle = useCallback(async () => {
-    if (selectedFilter === 'normal') return;
+    const newConfig: FilterConfig = { type: selectedFilter, severity, ...options, customProfile, layers, scope };
+    if (!hasActiveSimulation(newConfig)) return;
     
     const newEnabled = !isEnabled;
     setIsEnabledState(newEnabled);
-    await applyFilter({ type: selectedFilter, severity }, newEnabled);
-  }, [selectedFilter, severity, isEnabled, applyFilter]);
+    await applyFilter(newConfig, newEnabled);
+  }, [selectedFilter, severity, options, customProfile, layers, scope, isEnabled, applyFilter]);
 
   // Handle severity change with validation
   const handleSeverityChange = useCallback(async (value: number) => {
     const sanitized = sanitizeSeverity(value);
     setSeverity(sanitized);
     if (isEnabled && isValidType(selectedFilter)) {
-      await applyFilter({ type: selectedFilter, severity: sanitized }, true);
+      await applyFilter({ type: selectedFilter, severity: sanitized, ...options, customProfile, layers, scope }, true);
+    }
+  }, [selectedFilter, options, customProfile, layers, scope, isEnabled, applyFilter]);
+
+  // Handle algorithm and color space changes
+  const handleOptionsChange = useCallback(async (value: SimulationOptions) => {
+    setOptions(value);
+    if (isEnabled && selectedFilter !== 'normal') {
+      await applyFilter({ type: selectedFilter, severity, ...value, customProfile, layers, scope }, true);
+    }
+  }, [selectedFilter, severity, customProfile, layers, scope, isEnabled, applyFilter]);
+  
+  // Handle simulation stack changes
+  const handleLayersChange = useCallback(async (value: SimulationLayer[]) => {
+    setLayers(value);
+    if (!isEnabled) return;
+    
+    const newConfig: FilterConfig = { type: selectedFilter, severity, ...options, customProfile, layers: value, scope };
+    const active = hasActiveSimulation(newConfig);
+    await applyFilter(newConfig, active);
+    if (!active) {
+      setIsEnabledState(false);
+    }
+  }, [selectedFilter, severity, options, customProfile, scope, isEnabled, applyFilter]);
+
+  // Handle scope changes; undefined simulates the whole page
+  const handleScopeChange = useCallback(async (value: string | undefined) => {
+    setScope(value);
+    if (isEnabled && isValidType(selectedFilter)) {
+      await applyFilter({ type: selectedFilter, severity, ...options, customProfile, layers, scope: value }, true);
+    }
+  }, [selectedFilter, severity, options, customProfile, layers, isEnabled, applyFilter]);
+  
+  // Pick the scope in the inspected page
+  const handlePickElement = useCallback(async () => {
+    const newConfig: FilterConfig = { type: selectedFilter, severity, ...options, customProfile, layers };
+    if (!hasActiveSimulation(newConfig)) return;
+    
+    try {
+      await chrome.runtime.sendMessage({
+        action: 'startElementPicker',
+        config: newConfig,
+        tabId: chrome.devtools.inspectedWindow.tabId
+      });
+    } catch (error) {
+      logger.error('Error starting element picker:', error);
+    }
+  }, [selectedFilter, severity, options, customProfile, layers]);
+
+  // Start or stop the demo cycle in the inspected page
+  const handleCycleToggle = useCallback(async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: 'setCycle',
+        enabled: !isCycling,
+        tabId: chrome.devtools.inspectedWindow.tabId
+      });
+      setIsCycling(Boolean(response?.isCycling));
+    } catch (error) {
+      logger.error('Error toggling demo cycle:', error);
+    }
+  }, [isCycling]);
+
+  const handleCycleIntervalChange = useCallback(async (interval: number) => {
+    setCycleInterval(interval);
+    await updatePreferences({ cycleInterval: interval });
+  }, []);
+
+  const handleCycleTypesChange = useCallback(async (types: BuiltInColorBlindnessType[]) => {
+    setCycleTypes(types);
+    await updatePreferences({ cycleTypes: types });
+  }, []);
+
+  // Collect the inspected page's colors
+  const handleScanPalette = useCallback(async () => {
+    setIsScanningPalette(true);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: 'getPalette',
+        tabId: chrome.devtools.inspectedWindow.tabId
+      });
+      if (isErrorResponse(response)) {
+        throw fromErrorResponse(response);
+      }
+      setPalette(response?.palette ?? null);
+    } catch (error) {
+      logger.error('Error scanning palette:', error);
+    } finally {
+      setIsScanningPalette(false);
     }
-  }, [selectedFilter, isEnabled, applyFilter]);
+  }, []);
+
+  const handleDeltaEThresholdChange = useCallback(async (threshold: number) => {
+    setDeltaEThreshold(threshold);
+    await updatePreferences({ deltaEThreshold: threshold });
+  }, []);
+
+  // Collect the inspected page's text for the contrast check
+  const handleScanText = useCallback(async () => {
+    setIsScanningText(true);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: 'getPageText',
+        tabId: chrome.devtools.inspectedWindow.tabId
+      });
+      if (isErrorResponse(response)) {
+        throw fromErrorResponse(response);
+      }
+      setPageText(response?.text ?? null);
+    } catch (error) {
+      logger.error('Error scanning text contrast:', error);
+    } finally {
+      setIsScanningText(false);
+    }
+  }, []);
+
+  // Collect the inspected page's links that only color sets apart
+  const handleScanLinks = useCallback(async () => {
+    setIsScanningLinks(true);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: 'getTextLinks',
+        tabId: chrome.devtools.inspectedWindow.tabId
+      });
+      if (isErrorResponse(response)) {
+        throw fromErrorResponse(response);
+      }
+      setPageLinks(response?.links ?? null);
+    } catch (error) {
+      logger.error('Error scanning links:', error);
+    } finally {
+      setIsScanningLinks(false);
+    }
+  }, []);
+
+  // Outline elements on the inspected page, replacing earlier highlights
+  const handleHighlight = useCallback(async (selectors: string[]) => {
+    try {
+      await chrome.runtime.sendMessage({
+        action: 'highlightElements',
+        selectors,
+        tabId: chrome.devtools.inspectedWindow.tabId
+      });
+    } catch (error) {
+      logger.error('Error highlighting elements:', error);
+    }
+  }, []);
+
+  const handleClearHighlights = useCallback(async () => {
+    try {
+      await chrome.runtime.sendMessage({
+        action: 'clearHighlights',
+        tabId: chrome.devtools.inspectedWindow.tabId
+      });
+    } catch (error) {
+      logger.error('Error clearing highlights:', error);
+    }
+  }, []);
+
+  // Look for elements told apart by color alone
+  const handleScanColorOnly = useCallback(async () => {
+    setIsScanningColorOnly(true);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: 'getColorOnly',
+        tabId: chrome.devtools.inspectedWindow.tabId
+      });
+      if (isErrorResponse(response)) {
+        throw fromErrorResponse(response);
+      }
+      setColorOnlyScan(response?.scan ?? null);
+    } catch (error) {
+      logger.error('Error scanning for color-only cues:', error);
+    } finally {
+      setIsScanningColorOnly(false);
+    }
+  }, []);
 
   // Apply quick filter (for grid mode)
-  const applyQuickFilter = useCallback(async (type: ColorBlindnessType) => {
+  const applyQuickFilter = useCallback(async (type: ColorBlindnessType, profile?: CustomProfile) => {
     setSelectedFilter(type);
+    setCustomProfile(profile);
     const sev = getDefaultSeverity(type);
     setSeverity(sev);
     setIsEnabledState(true);
-    await applyFilter({ type, severity: sev }, true);
-  }, [applyFilter]);
+    await applyFilter({ type, severity: sev, ...options, customProfile: profile, layers, scope }, true);
+  }, [options, layers, scope, applyFilter]);
+  
+  // Save a custom profile, re-applying it if it is the active one
+  const handleSaveProfile = useCallback(async (profile: CustomProfile) => {
+    await saveCustomProfile(profile);
+    setCustomProfiles(await getCustomProfiles());
+    
+    if (selectedFilter === 'custom' && customProfile?.id === profile.id) {
+      setCustomProfile(profile);
+      if (isEnabled) {
+        await applyFilter({ type: 'custom', severity, ...options, customProfile: profile, layers, scope }, true);
+      }
+    }
+  }, [selectedFilter, severity, options, customProfile, layers, scope, isEnabled, applyFilter]);
+  
+  // Delete a custom profile, disabling the simulation if it was active
+  const handleDeleteProfile = useCallback(async (id: string) => {
+    try {
+      await deleteCustomProfile(id);
+      setCustomProfiles(await getCustomProfiles());
+      
+      if (selectedFilter === 'custom' && customProfile?.id === id) {
+        await handleFilterChange('normal');
+      }
+    } catch (error) {
+      logger.error('Error deleting profile:', error);
+    }
+  }, [selectedFilter, customProfile, handleFilterChange]);
 
   const categories = getFiltersByCategory();
   const allTypes = getAllFilterTypes().filter(t => t !== 'normal');
+  const config: FilterConfig = { type: selectedFilter, severity, ...options, customProfile, layers, scope };
+  const selectedInfo = getFilterInfo(config);
+  const isActive = isEnabled && hasActiveSimulation(config);
 
   return (
     <div className={`min-h-screen bg-gray-100 dark:bg-gray-900 ${darkMode ? 'dark' : ''}`}>
@@ -146,12 +444,12 @@ export function DevToolsPanel() {
           <div className="flex items-center gap-2">
             {/* Status indicator */}
             <div className={`px-3 py-1 rounded-full text-sm font-medium ${
-              isEnabled && selectedFilter !== 'normal'
+              isActive
                 ? 'bg-emerald-400/20 text-emerald-100' 
                 : 'bg-white/10 text-white/60'
             }`}>
-              {isEnabled && selectedFilter !== 'normal' 
-                ? `${FILTER_INFO[selectedFilter].shortName} Active` 
+              {isActive 
+                ? `${getSimulationLabel(config, true)} Active` 
                 : 'Inactive'}
             </div>
             
@@ -181,9 +479,9 @@ export function DevToolsPanel() {
         {/* View mode toggles */}
         <div className="flex gap-2 mb-6">
           <button
-            onClick={() => setGridMode(false)}
+            onClick={() => setViewMode('single')}
             className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-              !gridMode
+              viewMode === 'single'
                 ? 'bg-emerald-500 text-white'
                 : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
             }`}
@@ -191,65 +489,204 @@ export function DevToolsPanel() {
             Single Filter
           </button>
           <button
-            onClick={() => setGridMode(true)}
+            onClick={() => setViewMode('grid')}
             className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-              gridMode
+              viewMode === 'grid'
                 ? 'bg-emerald-500 text-white'
                 : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
             }`}
           >
             Quick Select Grid
           </button>
+          <button
+            onClick={() => setViewMode('contrast')}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              viewMode === 'contrast'
+                ? 'bg-emerald-500 text-white'
+                : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+            }`}
+          >
+            Contrast
+          </button>
+          <button
+            onClick={() => setViewMode('color-only')}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              viewMode === 'color-only'
+                ? 'bg-emerald-500 text-white'
+                : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+            }`}
+          >
+            Color Only
+          </button>
+          <button
+            onClick={() => setViewMode('palette')}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              viewMode === 'palette'
+                ? 'bg-emerald-500 text-white'
+                : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+            }`}
+          >
+            Page Palette
+          </button>
+          <button
+            onClick={() => setViewMode('profiles')}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              viewMode === 'profiles'
+                ? 'bg-emerald-500 text-white'
+                : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+            }`}
+          >
+            Custom Profiles
+          </button>
         </div>
 
-        {/* Grid mode */}
-        {gridMode ? (
-          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
-            {allTypes.map((type) => (
+        {/* Custom profile editor */}
+        {viewMode === 'profiles' ? (
+          <div className="max-w-xl bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+              Custom Profiles
+            </h2>
+            <CustomProfileEditor
+              profiles={customProfiles}
+              onSave={handleSaveProfile}
+              onDelete={handleDeleteProfile}
+            />
+          </div>
+        ) : viewMode === 'contrast' ? (
+          <div className="max-w-4xl space-y-4">
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+                Text Contrast
+              </h2>
+              <ContrastPanel
+                pageText={pageText}
+                options={options}
+                isScanning={isScanningText}
+                onScan={handleScanText}
+              />
+            </div>
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+                Links in Text
+              </h2>
+              <LinkContrastPanel
+                pageLinks={pageLinks}
+                options={options}
+                isScanning={isScanningLinks}
+                onScan={handleScanLinks}
+                onHighlight={handleHighlight}
+                onClearHighlights={handleClearHighlights}
+              />
+            </div>
+          </div>
+        ) : viewMode === 'color-only' ? (
+          <div className="max-w-4xl bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+              Color as the Only Visual Means
+            </h2>
+            <ColorOnlyPanel
+              scan={colorOnlyScan}
+              options={options}
+              threshold={deltaEThreshold}
+              isScanning={isScanningColorOnly}
+              onScan={handleScanColorOnly}
+            />
+          </div>
+        ) : viewMode === 'palette' ? (
+          <div className="max-w-3xl bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+              Page Palette
+            </h2>
+            <PalettePanel
+              palette={palette}
+              options={options}
+              threshold={deltaEThreshold}
+              onThresholdChange={handleDeltaEThresholdChange}
+              isScanning={isScanningPalette}
+              onScan={handleScanPalette}
+            />
+          </div>
+        ) : viewMode === 'grid' ? (
+          <div className="space-y-4">
+            <div className="max-w-xl bg-white dark:bg-gray-800 rounded-xl shadow-lg p-4">
+              <CycleControls
+                interval={cycleInterval}
+                types={cycleTypes}
+                onIntervalChange={handleCycleIntervalChange}
+                onTypesChange={handleCycleTypesChange}
+                isCycling={isCycling}
+                onToggle={handleCycleToggle}
+              />
+            </div>
+            
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              {allTypes.map((type) => (
+                <button
+                  key={type}
+                  onClick={() => applyQuickFilter(type)}
+                  className={`p-4 rounded-xl border-2 transition-all ${
+                    selectedFilter === type && isEnabled
+                      ? 'border-emerald-500 bg-emerald-50 dark:bg-emerald-900/20'
+                      : 'border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 hover:border-emerald-300'
+                  }`}
+                >
+                  <div className="text-left">
+                    <h3 className="font-semibold text-gray-900 dark:text-white">
+                      {FILTER_INFO[type].shortName}
+                    </h3>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      {FILTER_INFO[type].affectedCone}
+                    </p>
+                    <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+                      {FILTER_INFO[type].prevalence}
+                    </p>
+                  </div>
+                </button>
+              ))}
+            
+              {customProfiles.map((profile) => (
+                <button
+                  key={profile.id}
+                  onClick={() => applyQuickFilter('custom', profile)}
+                  className={`p-4 rounded-xl border-2 transition-all ${
+                    selectedFilter === 'custom' && customProfile?.id === profile.id && isEnabled
+                      ? 'border-emerald-500 bg-emerald-50 dark:bg-emerald-900/20'
+                      : 'border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 hover:border-emerald-300'
+                  }`}
+                >
+                  <div className="text-left">
+                    <h3 className="font-semibold text-gray-900 dark:text-white truncate">
+                      {profile.name}
+                    </h3>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      {FILTER_CATEGORY_LABELS.custom}
+                    </p>
+                  </div>
+                </button>
+              ))}
+            
+              {/* Disable button */}
               <button
-                key={type}
-                onClick={() => applyQuickFilter(type)}
+                onClick={() => {
+                  setIsEnabledState(false);
+                  applyFilter({ type: 'normal', severity: 100 }, false);
+                }}
                 className={`p-4 rounded-xl border-2 transition-all ${
-                  selectedFilter === type && isEnabled
-                    ? 'border-emerald-500 bg-emerald-50 dark:bg-emerald-900/20'
-                    : 'border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 hover:border-emerald-300'
+                  !isEnabled
+                    ? 'border-gray-500 bg-gray-100 dark:bg-gray-700'
+                    : 'border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 hover:border-gray-400'
                 }`}
               >
                 <div className="text-left">
                   <h3 className="font-semibold text-gray-900 dark:text-white">
-                    {FILTER_INFO[type].shortName}
+                    Disable
                   </h3>
                   <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                    {FILTER_INFO[type].affectedCone}
-                  </p>
-                  <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
-                    {FILTER_INFO[type].prevalence}
+                    Normal vision
                   </p>
                 </div>
               </button>
-            ))}
-            
-            {/* Disable button */}
-            <button
-              onClick={() => {
-                setIsEnabledState(false);
-                applyFilter({ type: 'normal', severity: 100 }, false);
-              }}
-              className={`p-4 rounded-xl border-2 transition-all ${
-                !isEnabled
-                  ? 'border-gray-500 bg-gray-100 dark:bg-gray-700'
-                  : 'border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 hover:border-gray-400'
-              }`}
-            >
-              <div className="text-left">
-                <h3 className="font-semibold text-gray-900 dark:text-white">
-                  Disable
-                </h3>
-                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                  Normal vision
-                </p>
-              </div>
-            </button>
+            </div>
           </div>
         ) : (
           /* Single filter mode */
@@ -266,8 +703,8 @@ export function DevToolsPanel() {
                   Color Blindness Type
                 </label>
                 <select
-                  value={selectedFilter}
-                  onChange={(e) => handleFilterChange(e.target.value as ColorBlindnessType)}
+                  value={selectedFilter === 'custom' && customProfile ? CUSTOM_VALUE_PREFIX + customProfile.id : selectedFilter}
+                  onChange={(e) => handleSelectChange(e.target.value)}
                   className="w-full px-4 py-3 bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white"
                 >
                   {Object.entries(categories).map(([category, types]) => (
@@ -279,6 +716,15 @@ export function DevToolsPanel() {
                       ))}
                     </optgroup>
                   ))}
+                  {customProfiles.length > 0 && (
+                    <optgroup label={FILTER_CATEGORY_LABELS.custom}>
+                      {customProfiles.map((profile) => (
+                        <option key={profile.id} value={CUSTOM_VALUE_PREFIX + profile.id}>
+                          {profile.name}
+                        </option>
+                      ))}
+                    </optgroup>
+                  )}
                 </select>
               </div>
               
@@ -294,21 +740,21 @@ export function DevToolsPanel() {
                 </div>
                 <button
                   onClick={handleToggle}
-                  disabled={selectedFilter === 'normal'}
+                  disabled={!hasActiveSimulation(config)}
                   className={`relative inline-flex h-8 w-16 items-center rounded-full transition-colors ${
-                    isEnabled && selectedFilter !== 'normal'
+                    isActive
                       ? 'bg-emerald-500'
                       : 'bg-gray-300 dark:bg-gray-600'
                   }`}
                 >
                   <span className={`inline-block h-6 w-6 transform rounded-full bg-white shadow transition-transform ${
-                    isEnabled && selectedFilter !== 'normal' ? 'translate-x-9' : 'translate-x-1'
+                    isActive ? 'translate-x-9' : 'translate-x-1'
                   }`} />
                 </button>
               </div>
               
               {/* Severity slider */}
-              {isAnomalyType(selectedFilter) && (
+              {isSeverityAdjustable(selectedFilter) && (
                 <div>
                   <div className="flex justify-between mb-2">
                     <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
@@ -333,29 +779,88 @@ export function DevToolsPanel() {
                   </div>
                 </div>
               )}
+              
+              {/* Algorithm selector */}
+              {getDichromacy(selectedFilter) && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Algorithm
+                  </label>
+                  <select
+                    value={options.algorithm ?? 'matrix'}
+                    onChange={(e) => handleOptionsChange({ ...options, algorithm: e.target.value as SimulationAlgorithm })}
+                    className="w-full px-4 py-3 bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white"
+                  >
+                    {getAllAlgorithms().map((value) => (
+                      <option key={value} value={value}>
+                        {ALGORITHM_INFO[value].name}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {ALGORITHM_INFO[options.algorithm ?? 'matrix'].description}
+                  </p>
+                </div>
+              )}
+              
+              {/* Gamma correction (Brettel always runs in linear light) */}
+              {selectedFilter !== 'normal' &&
+                getEffectiveAlgorithm(config) === 'matrix' &&
+                customProfile?.kind !== 'lms' && (
+                <label className="flex items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={options.colorSpace === 'linearRGB'}
+                    onChange={(e) => handleOptionsChange({
+                      ...options,
+                      colorSpace: e.target.checked ? 'linearRGB' : 'sRGB'
+                    })}
+                    className="w-4 h-4 accent-emerald-500"
+                  />
+                  <span>
+                    Gamma-correct
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                      Apply the matrix to linear light instead of sRGB values
+                    </span>
+                  </span>
+                </label>
+              )}
+              
+              <SimulationStackEditor
+                layers={layers}
+                onLayersChange={handleLayersChange}
+                customProfiles={customProfiles}
+              />
+              
+              <ScopeControls
+                key={scope ?? ''}
+                scope={scope}
+                onScopeChange={handleScopeChange}
+                onPickElement={handlePickElement}
+              />
             </div>
             
             {/* Info panel */}
             <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
               <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-                {FILTER_INFO[selectedFilter].name}
+                {selectedInfo.name}
               </h2>
               
               <p className="text-gray-600 dark:text-gray-400 text-sm mb-4">
-                {FILTER_INFO[selectedFilter].description}
+                {selectedInfo.description}
               </p>
               
               <div className="grid grid-cols-2 gap-4 mb-6">
                 <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-lg">
                   <span className="text-xs text-gray-500 dark:text-gray-400 block">Affected</span>
                   <span className="text-sm font-medium text-gray-900 dark:text-white">
-                    {FILTER_INFO[selectedFilter].affectedCone}
+                    {selectedInfo.affectedCone}
                   </span>
                 </div>
                 <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-lg">
                   <span className="text-xs text-gray-500 dark:text-gray-400 block">Prevalence</span>
                   <span className="text-sm font-medium text-gray-900 dark:text-white">
-                    {FILTER_INFO[selectedFilter].prevalence}
+                    {selectedInfo.prevalence}
                   </span>
                 </div>
               </div>
@@ -369,6 +874,45 @@ export function DevToolsPanel() {
                   Avoid relying solely on color to convey meaning.
                 </p>
               </div>
+              
+              {/* Color preview */}
+              <div className="mt-6">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Color Preview
+                </label>
+                <input
+                  type="text"
+                  value={previewColor}
+                  onChange={(e) => setPreviewColor(e.target.value)}
+                  placeholder="#E53935, rgb(229 57 53) or hsl(2 77% 55%)"
+                  className="w-full px-4 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg text-sm font-mono text-gray-900 dark:text-white"
+                />
+                {isValidColor(previewColor) ? (
+                  <div className="flex items-center gap-4 mt-3">
+                    <div className="flex items-center gap-2">
+                      <div
+                        className="w-10 h-10 rounded-lg border border-gray-200 dark:border-gray-600"
+                        style={{ backgroundColor: previewColor }}
+                      />
+                      <span className="text-xs text-gray-500 dark:text-gray-400">Original</span>
+                    </div>
+                    <span className="text-gray-400">→</span>
+                    <div className="flex items-center gap-2">
+                      <div
+                        className="w-10 h-10 rounded-lg border border-gray-200 dark:border-gray-600"
+                        style={{ backgroundColor: simulateColor(previewColor, config) }}
+                      />
+                      <span className="text-xs font-mono text-gray-500 dark:text-gray-400">
+                        {simulateColor(previewColor, config)}
+                      </span>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-xs text-red-600 dark:text-red-400 mt-2">
+                    Enter a hex, rgb() or hsl() color
+                  </p>
+                )}
+              </div>
             </div>
           </div>
         )}
@@ -0,0 +1,157 @@
+import { useMemo } from 'react';
+import type { SimulationOptions } from '../../lib/colorblind-filters';
+import { FILTER_INFO } from '../../lib/colorblind-filters';
+import type { PageLinks } from '../../lib/contrast';
+import { LINK_CONTRAST_MINIMUM, findLinkFailuresByType } from '../../lib/contrast';
+
+// Failures listed per type
+const MAX_LISTED_FAILURES = 50;
+
+interface LinkContrastPanelProps {
+  pageLinks: PageLinks | null;
+  options: SimulationOptions;
+  isScanning: boolean;
+  onScan: () => void;
+  onHighlight: (selectors: string[]) => void;
+  onClearHighlights: () => void;
+}
+
+// Truncate rather than round, so a failing 2.997:1 never reads as 3.00:1
+function formatRatio(ratio: number): string {
+  return `${(Math.floor(ratio * 100) / 100).toFixed(2)}:1`;
+}
+
+export function LinkContrastPanel({
+  pageLinks,
+  options,
+  isScanning,
+  onScan,
+  onHighlight,
+  onClearHighlights
+}: LinkContrastPanelProps) {
+  const results = useMemo(
+    () => (pageLinks ? findLinkFailuresByType(pageLinks.samples, options) : []),
+    [pageLinks, options]
+  );
+
+  return (
+    <div className="link-contrast-panel space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Finds links inside text that only color sets apart: no underline, border, background, icon or
+          change of font. Each needs {LINK_CONTRAST_MINIMUM}:1 against the text around it (WCAG F73),
+          in normal vision and under each simulation.
+        </p>
+        <div className="flex shrink-0 gap-2">
+          <button
+            onClick={onClearHighlights}
+            className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700
+                       hover:bg-gray-200 dark:hover:bg-gray-600 rounded-lg transition-colors"
+          >
+            Clear Highlights
+          </button>
+          <button
+            onClick={onScan}
+            disabled={isScanning}
+            className="px-4 py-2 text-sm text-white bg-emerald-600 hover:bg-emerald-700
+                       rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isScanning ? 'Scanning…' : pageLinks ? 'Rescan' : 'Scan Page'}
+          </button>
+        </div>
+      </div>
+
+      {pageLinks && (
+        <>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {pageLinks.samples.reduce((sum, sample) => sum + sample.count, 0)} links without a non-color cue
+            on {pageLinks.elementCount} elements
+            {pageLinks.isTruncated && ' (page only partly scanned)'}
+          </p>
+
+          <div className="space-y-2">
+            {results.map(({ type, failures }) => (
+              <details key={type} className="bg-gray-50 dark:bg-gray-700/50 rounded-lg px-4 py-2">
+                <summary className="flex items-center justify-between cursor-pointer text-sm text-gray-700 dark:text-gray-300 select-none">
+                  <span>{FILTER_INFO[type].name}</span>
+                  <span className="flex items-center gap-3">
+                    {failures.length > 0 && (
+                      <button
+                        onClick={(e) => {
+                          e.preventDefault();
+                          onHighlight(failures.flatMap(({ sample }) => sample.selectors));
+                        }}
+                        className="text-xs text-emerald-600 dark:text-emerald-400 hover:underline"
+                      >
+                        Highlight
+                      </button>
+                    )}
+                    <span
+                      className={`text-xs font-medium ${
+                        failures.length > 0
+                          ? 'text-red-600 dark:text-red-400'
+                          : 'text-emerald-600 dark:text-emerald-400'
+                      }`}
+                    >
+                      {failures.length > 0
+                        ? `${failures.reduce((sum, { sample }) => sum + sample.count, 0)} failing`
+                        : 'All pass'}
+                    </span>
+                  </span>
+                </summary>
+
+                {failures.length > 0 && (
+                  <table className="w-full mt-2 text-xs text-left text-gray-600 dark:text-gray-400">
+                    <thead>
+                      <tr className="text-gray-500 dark:text-gray-400">
+                        <th className="py-1 pr-2 font-medium">Link in text</th>
+                        <th className="py-1 pr-2 font-medium">Ratio</th>
+                        <th className="py-1 pr-2 font-medium">Uses</th>
+                        <th className="py-1 font-medium">Element</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {failures.slice(0, MAX_LISTED_FAILURES).map(({ sample, ratio, simulated }) => (
+                        <tr
+                          key={`${sample.foreground} ${sample.text} ${sample.background}`}
+                          className="border-t border-gray-200 dark:border-gray-600"
+                        >
+                          <td className="py-1 pr-2">
+                            <span
+                              className="inline-block px-1.5 py-0.5 rounded max-w-[16rem] truncate align-middle"
+                              style={{ backgroundColor: simulated.background }}
+                              title={`${sample.foreground} in ${sample.text} text on ${sample.background}`}
+                            >
+                              <span style={{ color: simulated.text }}>Text </span>
+                              <span style={{ color: simulated.foreground }}>{sample.label}</span>
+                            </span>
+                          </td>
+                          <td className="py-1 pr-2 font-mono">{formatRatio(ratio)}</td>
+                          <td className="py-1 pr-2">{sample.count}</td>
+                          <td className="py-1 font-mono truncate max-w-[20rem]">
+                            <button
+                              onClick={() => onHighlight(sample.selectors)}
+                              className="truncate max-w-full hover:underline"
+                              title={`Highlight on the page\n${sample.selectors.join('\n')}`}
+                            >
+                              {sample.selectors[0]}
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+                {failures.length > MAX_LISTED_FAILURES && (
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    and {failures.length - MAX_LISTED_FAILURES} more
+                  </p>
+                )}
+              </details>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
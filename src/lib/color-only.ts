@@ -0,0 +1,128 @@
+/**
+ * Color as the only visual means (WCAG 1.4.1)
+ *
+ * The content script's heuristic rules find elements told apart from their
+ * siblings or the text around them by color alone. This module describes
+ * the rules and scores each finding with CIEDE2000, in normal vision and
+ * under each simulation, to show which types lose the distinction. Pure
+ * functions, safe to use from the popup and DevTools panel.
+ */
+
+import type { FilterConfig, SimulationOptions } from './colorblind-filters';
+import { getAllFilterTypes, getDefaultSeverity, simulateColor } from './colorblind-filters';
+import { parseColor } from './color-utils';
+import { getColorDifference } from './color-science';
+import type { SimulatedType } from './palette';
+
+export type ColorOnlyRuleId = 'sibling-variants' | 'inline-emphasis';
+
+export interface ColorOnlyRuleInfo {
+  name: string;
+  description: string;
+}
+
+export const COLOR_ONLY_RULES: Record<ColorOnlyRuleId, ColorOnlyRuleInfo> = {
+  'sibling-variants': {
+    name: 'Sibling variants',
+    description: 'Siblings with the same structure, font and borders that differ only in color, such as status dots, unlabeled legend swatches or form fields marked in red'
+  },
+  'inline-emphasis': {
+    name: 'Inline emphasis',
+    description: 'Inline text set apart from the text around it only by color, with the same font, weight, style and decoration'
+  }
+};
+
+/**
+ * One way the elements of a finding are painted
+ */
+export interface ColorOnlyVariant {
+  colors: string[]; // opaque hex, one per property of the finding
+  count: number; // elements painted this way
+  selectors: string[]; // a few of the elements whose color differs
+}
+
+/**
+ * Elements that differ from each other only in color
+ */
+export interface ColorOnlyFinding {
+  rule: ColorOnlyRuleId;
+  properties: string[]; // CSS properties that differ, e.g. `color` or `border-top-color`
+  variants: ColorOnlyVariant[]; // at least two, most used first
+}
+
+export interface ColorOnlyScan {
+  findings: ColorOnlyFinding[];
+  elementCount: number; // elements inspected
+  isTruncated: boolean; // the page has elements that were not inspected
+}
+
+/**
+ * A finding with the ΔE00 between its two closest variants
+ */
+export interface ScoredColorOnlyFinding {
+  finding: ColorOnlyFinding;
+  deltaE: number; // in normal vision
+  simulations: Record<SimulatedType, number>;
+  /**
+   * Types under which the closest variants drop below the threshold,
+   * empty when they are below it in normal vision too
+   */
+  collapsesUnder: SimulatedType[];
+}
+
+// Two variants are as distinct as their most different property
+function getVariantDifference(first: string[], second: string[]): number {
+  return Math.max(...first.map((color, i) => {
+    const a = parseColor(color);
+    const b = parseColor(second[i]);
+    return a && b ? getColorDifference(a, b) : 0;
+  }));
+}
+
+// A finding is as distinct as its closest two variants
+function getFindingDifference(variants: string[][]): number {
+  let closest = Infinity;
+  for (let i = 0; i < variants.length; i++) {
+    for (let j = i + 1; j < variants.length; j++) {
+      closest = Math.min(closest, getVariantDifference(variants[i], variants[j]));
+    }
+  }
+  return closest;
+}
+
+/**
+ * Score every finding in normal vision and under every built-in type,
+ * each at its default severity
+ * @param threshold - ΔE00 below which two colors count as indistinguishable
+ * @param options - Algorithm and color space to simulate with
+ * @returns Findings that collapse under the most types first, then the most used
+ */
+export function scoreColorOnlyFindings(
+  findings: ColorOnlyFinding[],
+  threshold: number,
+  options: SimulationOptions = {}
+): ScoredColorOnlyFinding[] {
+  const types = getAllFilterTypes().filter((type): type is SimulatedType => type !== 'normal');
+
+  const scores = findings.map((finding) => {
+    const original = finding.variants.map(variant => variant.colors);
+    const simulations = Object.fromEntries(types.map((type) => {
+      const config: FilterConfig = { type, severity: getDefaultSeverity(type), ...options };
+      const simulated = original.map(colors => colors.map(color => simulateColor(color, config)));
+      return [type, getFindingDifference(simulated)];
+    })) as Record<SimulatedType, number>;
+
+    // Variants that are close to begin with do not collapse
+    const deltaE = getFindingDifference(original);
+    return {
+      finding,
+      deltaE,
+      simulations,
+      collapsesUnder: deltaE >= threshold ? types.filter(type => simulations[type] < threshold) : []
+    };
+  });
+
+  const getCount = (score: ScoredColorOnlyFinding) =>
+    score.finding.variants.reduce((sum, variant) => sum + variant.count, 0);
+  return scores.sort((a, b) => b.collapsesUnder.length - a.collapsesUnder.length || getCount(b) - getCount(a));
+}
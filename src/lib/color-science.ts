@@ -0,0 +1,126 @@
+/**
+ * Color science utilities
+ *
+ * CIELAB conversion and the CIEDE2000 color difference (ΔE00), which
+ * follows perceived difference closely across hues, unlike contrast ratio,
+ * which only sees luminance. Pure functions, safe to use anywhere.
+ */
+
+import type { RGBAColor } from './color-utils';
+import { XYZ_FROM_LINEAR_RGB, srgbToLinear, transformVec3 } from './lms-simulation';
+
+/**
+ * CIELAB color, D65 white point
+ */
+export interface LabColor {
+  l: number; // lightness, 0 to 100
+  a: number; // green (-) to red (+)
+  b: number; // blue (-) to yellow (+)
+}
+
+// D65 reference white, the XYZ of sRGB white
+const D65_WHITE = [0.9505, 1, 1.089];
+
+// CIELAB companding constants, as exact fractions
+const EPSILON = 216 / 24389;
+const KAPPA = 24389 / 27;
+
+// 25^7, where ΔE00 chroma terms saturate
+const CHROMA_POWER = Math.pow(25, 7);
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Hue angle in degrees, 0 to 360
+ */
+function getHue(b: number, a: number): number {
+  if (a === 0 && b === 0) {
+    return 0;
+  }
+  const hue = (Math.atan2(b, a) * 180) / Math.PI;
+  return hue < 0 ? hue + 360 : hue;
+}
+
+/**
+ * Convert an sRGB color to CIELAB, ignoring alpha
+ */
+export function rgbToLab(color: RGBAColor): LabColor {
+  const linear = [color.r, color.g, color.b]
+    .map(channel => srgbToLinear(Math.max(0, Math.min(255, channel)) / 255)) as [number, number, number];
+  const xyz = transformVec3(XYZ_FROM_LINEAR_RGB, linear);
+  const [fx, fy, fz] = xyz.map((value, i) => {
+    const t = value / D65_WHITE[i];
+    return t > EPSILON ? Math.cbrt(t) : (KAPPA * t + 16) / 116;
+  });
+
+  return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+}
+
+/**
+ * Get the CIEDE2000 difference of two Lab colors (Sharma, Wu and Dalal,
+ * 2005), with the parametric factors at 1
+ * @returns ΔE00; about 1 is just noticeable side by side
+ */
+export function deltaE2000(first: LabColor, second: LabColor): number {
+  const meanChroma = (Math.hypot(first.a, first.b) + Math.hypot(second.a, second.b)) / 2;
+  const g = 0.5 * (1 - Math.sqrt(Math.pow(meanChroma, 7) / (Math.pow(meanChroma, 7) + CHROMA_POWER)));
+
+  const a1 = first.a * (1 + g);
+  const a2 = second.a * (1 + g);
+  const c1 = Math.hypot(a1, first.b);
+  const c2 = Math.hypot(a2, second.b);
+  const h1 = getHue(first.b, a1);
+  const h2 = getHue(second.b, a2);
+  const hasHue = c1 * c2 !== 0;
+
+  let hueDifference = 0;
+  if (hasHue) {
+    hueDifference = h2 - h1;
+    if (hueDifference > 180) {
+      hueDifference -= 360;
+    } else if (hueDifference < -180) {
+      hueDifference += 360;
+    }
+  }
+
+  const deltaL = second.l - first.l;
+  const deltaC = c2 - c1;
+  const deltaH = 2 * Math.sqrt(c1 * c2) * Math.sin(toRadians(hueDifference / 2));
+
+  const meanL = (first.l + second.l) / 2;
+  const meanC = (c1 + c2) / 2;
+  let meanH = h1 + h2;
+  if (hasHue) {
+    if (Math.abs(h1 - h2) <= 180) {
+      meanH = (h1 + h2) / 2;
+    } else {
+      meanH = h1 + h2 < 360 ? (h1 + h2 + 360) / 2 : (h1 + h2 - 360) / 2;
+    }
+  }
+
+  const t = 1
+    - 0.17 * Math.cos(toRadians(meanH - 30))
+    + 0.24 * Math.cos(toRadians(2 * meanH))
+    + 0.32 * Math.cos(toRadians(3 * meanH + 6))
+    - 0.20 * Math.cos(toRadians(4 * meanH - 63));
+  const rotation = 30 * Math.exp(-Math.pow((meanH - 275) / 25, 2));
+  const rc = 2 * Math.sqrt(Math.pow(meanC, 7) / (Math.pow(meanC, 7) + CHROMA_POWER));
+  const sl = 1 + (0.015 * Math.pow(meanL - 50, 2)) / Math.sqrt(20 + Math.pow(meanL - 50, 2));
+  const sc = 1 + 0.045 * meanC;
+  const sh = 1 + 0.015 * meanC * t;
+  const rt = -Math.sin(toRadians(2 * rotation)) * rc;
+
+  const l = deltaL / sl;
+  const c = deltaC / sc;
+  const h = deltaH / sh;
+  return Math.sqrt(l * l + c * c + h * h + rt * c * h);
+}
+
+/**
+ * Get the CIEDE2000 difference of two sRGB colors, ignoring alpha
+ */
+export function getColorDifference(first: RGBAColor, second: RGBAColor): number {
+  return deltaE2000(rgbToLab(first), rgbToLab(second));
+}
@@ -0,0 +1,184 @@
+/**
+ * Color parsing and formatting utilities
+ *
+ * Pure functions with no DOM access, safe to use from the popup,
+ * DevTools panel, content script and service worker.
+ */
+
+/**
+ * RGBA color with 0-255 channels and 0-1 alpha
+ */
+export interface RGBAColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+const HEX_PATTERN = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const FUNCTION_PATTERN = /^(rgba?|hsla?)\(\s*([^)]*)\)$/i;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function parseHex(hex: string): RGBAColor {
+  const digits = hex.length <= 4
+    ? hex.split('').map(d => d + d).join('')
+    : hex;
+
+  return {
+    r: parseInt(digits.slice(0, 2), 16),
+    g: parseInt(digits.slice(2, 4), 16),
+    b: parseInt(digits.slice(4, 6), 16),
+    a: digits.length === 8 ? parseInt(digits.slice(6, 8), 16) / 255 : 1
+  };
+}
+
+/**
+ * Split function arguments, accepting both `1, 2, 3, 0.5` and `1 2 3 / 0.5`
+ */
+function splitArguments(args: string): string[] {
+  return args
+    .replace(/\s*\/\s*/, ' / ')
+    .split(/[\s,]+/)
+    .filter(part => part.length > 0 && part !== '/');
+}
+
+function parseNumber(value: string): number | null {
+  const number = parseFloat(value);
+  return isNaN(number) ? null : number;
+}
+
+function parseAlpha(value: string | undefined): number | null {
+  if (value === undefined) return 1;
+  const number = parseNumber(value);
+  if (number === null) return null;
+  return clamp(value.endsWith('%') ? number / 100 : number, 0, 1);
+}
+
+function parseRgbChannel(value: string): number | null {
+  const number = parseNumber(value);
+  if (number === null) return null;
+  return clamp(value.endsWith('%') ? (number / 100) * 255 : number, 0, 255);
+}
+
+function parseHue(value: string): number | null {
+  const number = parseNumber(value);
+  if (number === null) return null;
+  if (value.endsWith('turn')) return number * 360;
+  if (value.endsWith('grad')) return number * 0.9;
+  if (value.endsWith('rad')) return (number * 180) / Math.PI;
+  return number;
+}
+
+/**
+ * Convert HSL (hue in degrees, saturation and lightness 0-1) to 0-255 RGB
+ */
+export function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  const hue = ((h % 360) + 360) % 360;
+  const chroma = (1 - Math.abs(2 * l - 1)) * s;
+  const x = chroma * (1 - Math.abs(((hue / 60) % 2) - 1));
+  const m = l - chroma / 2;
+
+  let rgb: [number, number, number];
+  if (hue < 60) rgb = [chroma, x, 0];
+  else if (hue < 120) rgb = [x, chroma, 0];
+  else if (hue < 180) rgb = [0, chroma, x];
+  else if (hue < 240) rgb = [0, x, chroma];
+  else if (hue < 300) rgb = [x, 0, chroma];
+  else rgb = [chroma, 0, x];
+
+  return [(rgb[0] + m) * 255, (rgb[1] + m) * 255, (rgb[2] + m) * 255];
+}
+
+/**
+ * Parse a CSS color string
+ * @param input - Hex (`#rgb`, `#rgba`, `#rrggbb`, `#rrggbbaa`), `rgb()`/`rgba()`,
+ *   `hsl()`/`hsla()` or `transparent`
+ * @returns Parsed color, or null if the string is not a supported color
+ * @example
+ * ```typescript
+ * parseColor('#E53935') // { r: 229, g: 57, b: 53, a: 1 }
+ * parseColor('hsl(120 100% 50% / 50%)') // { r: 0, g: 255, b: 0, a: 0.5 }
+ * ```
+ */
+export function parseColor(input: string): RGBAColor | null {
+  const value = input.trim().toLowerCase();
+
+  if (value === 'transparent') {
+    return { r: 0, g: 0, b: 0, a: 0 };
+  }
+
+  if (HEX_PATTERN.test(value)) {
+    return parseHex(value.slice(1));
+  }
+
+  const match = value.match(FUNCTION_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const [, fn, args] = match;
+  const parts = splitArguments(args);
+  if (parts.length < 3 || parts.length > 4) {
+    return null;
+  }
+
+  const a = parseAlpha(parts[3]);
+  if (a === null) {
+    return null;
+  }
+
+  if (fn.startsWith('rgb')) {
+    const channels = parts.slice(0, 3).map(parseRgbChannel);
+    if (channels.some(c => c === null)) {
+      return null;
+    }
+    const [r, g, b] = channels as number[];
+    return { r, g, b, a };
+  }
+
+  const h = parseHue(parts[0]);
+  const s = parseNumber(parts[1]);
+  const l = parseNumber(parts[2]);
+  if (h === null || s === null || l === null) {
+    return null;
+  }
+
+  const [r, g, b] = hslToRgb(h, clamp(s, 0, 100) / 100, clamp(l, 0, 100) / 100);
+  return { r, g, b, a };
+}
+
+/**
+ * Check if a string is a supported CSS color
+ */
+export function isValidColor(input: unknown): input is string {
+  return typeof input === 'string' && parseColor(input) !== null;
+}
+
+/**
+ * Format a color as a lowercase hex string
+ * @returns `#rrggbb`, or `#rrggbbaa` when the color is not fully opaque
+ */
+export function formatHex(color: RGBAColor): string {
+  const toHex = (channel: number) =>
+    Math.round(clamp(channel, 0, 255)).toString(16).padStart(2, '0');
+
+  const hex = `#${toHex(color.r)}${toHex(color.g)}${toHex(color.b)}`;
+  return color.a < 1 ? hex + toHex(color.a * 255) : hex;
+}
+
+/**
+ * Composite a translucent color over an opaque background
+ * @returns An opaque color
+ */
+export function blendColors(foreground: RGBAColor, background: RGBAColor): RGBAColor {
+  const { a } = foreground;
+  return {
+    r: foreground.r * a + background.r * (1 - a),
+    g: foreground.g * a + background.g * (1 - a),
+    b: foreground.b * a + background.b * (1 - a),
+    a: 1
+  };
+}
@@ -0,0 +1,308 @@
+/**
+ * Color Vision Self-test
+ *
+ * A Farnsworth D-15 style arrangement task. The viewer orders 15 colored
+ * caps by similarity, starting from a fixed pilot cap. The order is scored
+ * with the moment of inertia method of Vingrys & King-Smith (1988): the
+ * color differences between consecutive caps form a cloud whose major axis
+ * gives the confusion direction (type) and whose size relative to a
+ * perfect arrangement gives the severity.
+ *
+ * Confusion directions are not hard-coded angles. They are derived from
+ * the arrangement a simulated dichromat would make, so the scoring stays
+ * consistent with the simulation model used everywhere else.
+ *
+ * This is a screening aid for choosing a filter, not a diagnosis.
+ */
+
+import type { ColorBlindnessType } from './colorblind-filters';
+import type { Dichromacy, Vec3 } from './lms-simulation';
+import { linearToSrgb, simulateBrettel, srgbToLinear } from './lms-simulation';
+import { formatHex } from './color-utils';
+
+/**
+ * One cap of the test. Cap 0 is the fixed pilot.
+ */
+export interface D15Cap {
+  id: number;
+  color: string; // sRGB hex
+}
+
+/**
+ * Scored arrangement
+ */
+export interface D15Result {
+  type: ColorBlindnessType | null; // null when the errors have no clear direction
+  severity: number; // 0-100
+  deficiency: Dichromacy | null;
+  confusionAngle: number; // major axis angle in degrees, -90 to 90
+  cIndex: number; // confusion index, 1 for a perfect arrangement
+  sIndex: number; // selectivity index, low for random errors
+  selective: boolean;
+}
+
+// CIE 1976 u*, v* of the D-15 caps (pilot first), Vingrys & King-Smith (1988)
+const CAP_CHROMATICITY: [number, number][] = [
+  [-21.54, -38.39],
+  [-23.26, -25.56],
+  [-22.41, -15.53],
+  [-23.11, -7.45],
+  [-22.45, 1.1],
+  [-21.67, 7.35],
+  [-14.08, 18.74],
+  [-2.72, 28.13],
+  [14.84, 31.13],
+  [23.87, 26.35],
+  [31.82, 14.76],
+  [31.42, 6.99],
+  [29.79, 0.1],
+  [26.64, -9.38],
+  [22.92, -18.65],
+  [11.2, -24.61]
+];
+
+// D-15 caps are Munsell value 5
+const CAP_LIGHTNESS = 51;
+
+// D65 white point chromaticity
+const WHITE_U = 0.1978;
+const WHITE_V = 0.4683;
+
+// Arrangements below this confusion index are within normal variation
+const NORMAL_C_INDEX = 1.6;
+
+// Below this selectivity the errors have no dominant direction
+const MIN_S_INDEX = 1.8;
+
+// Severities at or above this are reported as the complete (-opia) type
+const DICHROMAT_SEVERITY = 90;
+
+const ANOPIA_TYPES: Record<Dichromacy, ColorBlindnessType> = {
+  protan: 'protanopia',
+  deutan: 'deuteranopia',
+  tritan: 'tritanopia'
+};
+
+const ANOMALY_TYPES: Record<Dichromacy, ColorBlindnessType> = {
+  protan: 'protanomaly',
+  deutan: 'deuteranomaly',
+  tritan: 'tritanomaly'
+};
+
+function luvToSrgb(l: number, u: number, v: number): Vec3 {
+  const y = Math.pow((l + 16) / 116, 3);
+  const up = u / (13 * l) + WHITE_U;
+  const vp = v / (13 * l) + WHITE_V;
+  const x = (y * 9 * up) / (4 * vp);
+  const z = (y * (12 - 3 * up - 20 * vp)) / (4 * vp);
+
+  const linear: Vec3 = [
+    3.2406 * x - 1.5372 * y - 0.4986 * z,
+    -0.9689 * x + 1.8758 * y + 0.0415 * z,
+    0.0557 * x - 0.204 * y + 1.057 * z
+  ];
+  return linear.map(c => linearToSrgb(Math.max(0, Math.min(1, c)))) as Vec3;
+}
+
+function srgbToLuv(rgb: Vec3): Vec3 {
+  const [r, g, b] = rgb.map(srgbToLinear);
+  const x = 0.4124 * r + 0.3576 * g + 0.1805 * b;
+  const y = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  const z = 0.0193 * r + 0.1192 * g + 0.9505 * b;
+
+  const l = y > 0.008856 ? 116 * Math.cbrt(y) - 16 : 903.3 * y;
+  const denominator = x + 15 * y + 3 * z;
+  if (denominator === 0) {
+    return [l, 0, 0];
+  }
+  const up = (4 * x) / denominator;
+  const vp = (9 * y) / denominator;
+  return [l, 13 * l * (up - WHITE_U), 13 * l * (vp - WHITE_V)];
+}
+
+const CAP_RGB: Vec3[] = CAP_CHROMATICITY.map(([u, v]) => luvToSrgb(CAP_LIGHTNESS, u, v));
+
+/**
+ * The pilot cap followed by caps 1-15 in their correct order
+ */
+export const D15_CAPS: D15Cap[] = CAP_RGB.map((rgb, id) => ({
+  id,
+  color: formatHex({ r: rgb[0] * 255, g: rgb[1] * 255, b: rgb[2] * 255, a: 1 })
+}));
+
+/**
+ * Number of movable caps (the pilot is fixed)
+ */
+export const D15_CAP_COUNT = CAP_CHROMATICITY.length - 1;
+
+interface Moments {
+  angle: number; // radians
+  major: number;
+  minor: number;
+}
+
+/**
+ * Moment of inertia analysis of the color difference vectors between
+ * consecutive caps, starting from the pilot
+ */
+function getMoments(order: number[], coordinates: [number, number][]): Moments {
+  const sequence = [0, ...order];
+  let uu = 0;
+  let vv = 0;
+  let uv = 0;
+
+  for (let i = 1; i < sequence.length; i++) {
+    const [u1, v1] = coordinates[sequence[i - 1]];
+    const [u2, v2] = coordinates[sequence[i]];
+    const du = u2 - u1;
+    const dv = v2 - v1;
+    uu += du * du;
+    vv += dv * dv;
+    uv += du * dv;
+  }
+
+  // Principal axes of the 2x2 scatter matrix
+  const angle = 0.5 * Math.atan2(2 * uv, uu - vv);
+  const mean = (uu + vv) / 2;
+  const spread = Math.hypot((uu - vv) / 2, uv);
+  const count = sequence.length - 1;
+
+  return {
+    angle,
+    major: Math.sqrt((mean + spread) / count),
+    minor: Math.sqrt(Math.max(0, mean - spread) / count)
+  };
+}
+
+/**
+ * Smallest difference between two axis directions, which repeat every 180°
+ */
+function axisDistance(a: number, b: number): number {
+  const difference = Math.abs(a - b) % Math.PI;
+  return Math.min(difference, Math.PI - difference);
+}
+
+/**
+ * Order the caps the way a dichromat would: starting at the pilot, always
+ * pick the remaining cap that looks most similar under the simulation
+ */
+function getDichromatArrangement(deficiency: Dichromacy): number[] {
+  const simulated = CAP_RGB.map(rgb => srgbToLuv(simulateBrettel(rgb, deficiency)));
+  const remaining = new Set(D15_CAPS.slice(1).map(cap => cap.id));
+  const order: number[] = [];
+  let current = 0;
+
+  while (remaining.size > 0) {
+    let best = -1;
+    let bestDistance = Infinity;
+    for (const id of remaining) {
+      const distance = Math.hypot(
+        simulated[id][0] - simulated[current][0],
+        simulated[id][1] - simulated[current][1],
+        simulated[id][2] - simulated[current][2]
+      );
+      if (distance < bestDistance) {
+        best = id;
+        bestDistance = distance;
+      }
+    }
+    order.push(best);
+    remaining.delete(best);
+    current = best;
+  }
+
+  return order;
+}
+
+const PERFECT_ORDER = D15_CAPS.slice(1).map(cap => cap.id);
+const PERFECT_MOMENTS = getMoments(PERFECT_ORDER, CAP_CHROMATICITY);
+
+// Confusion axis and confusion index of a simulated dichromat for each class
+const REFERENCE_MOMENTS: Record<Dichromacy, { angle: number; cIndex: number }> = (
+  ['protan', 'deutan', 'tritan'] as Dichromacy[]
+).reduce((references, deficiency) => {
+  const moments = getMoments(getDichromatArrangement(deficiency), CAP_CHROMATICITY);
+  references[deficiency] = { angle: moments.angle, cIndex: moments.major / PERFECT_MOMENTS.major };
+  return references;
+}, {} as Record<Dichromacy, { angle: number; cIndex: number }>);
+
+/**
+ * Check if a value is a complete arrangement: every cap 1-15 exactly once
+ */
+export function isCompleteArrangement(order: unknown): order is number[] {
+  return (
+    Array.isArray(order) &&
+    order.length === D15_CAP_COUNT &&
+    new Set(order).size === D15_CAP_COUNT &&
+    order.every(id => Number.isInteger(id) && id >= 1 && id <= D15_CAP_COUNT)
+  );
+}
+
+/**
+ * Shuffle the movable caps for a new test
+ * @param random - Source of randomness, defaults to Math.random
+ */
+export function shuffleD15Caps(random: () => number = Math.random): number[] {
+  const ids = [...PERFECT_ORDER];
+  for (let i = ids.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [ids[i], ids[j]] = [ids[j], ids[i]];
+  }
+  return ids;
+}
+
+/**
+ * Score a D-15 arrangement into a filter type and severity
+ * @param order - Cap ids 1-15 in the order the viewer placed them
+ * @returns The closest type and severity; `normal` when the arrangement
+ *   is within normal variation, and a null type when it is not but the
+ *   errors are unselective, as in a random arrangement
+ * @throws Error if the arrangement is incomplete
+ * @example
+ * ```typescript
+ * scoreD15([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15]).type // 'normal'
+ * ```
+ */
+export function scoreD15(order: number[]): D15Result {
+  if (!isCompleteArrangement(order)) {
+    throw new Error(`Arrangement must contain each of the ${D15_CAP_COUNT} caps once`);
+  }
+
+  const moments = getMoments(order, CAP_CHROMATICITY);
+  const cIndex = moments.major / PERFECT_MOMENTS.major;
+  const sIndex = moments.minor > 0 ? moments.major / moments.minor : Infinity;
+  const selective = sIndex >= MIN_S_INDEX;
+  const confusionAngle = Math.round((moments.angle * 180) / Math.PI * 10) / 10;
+
+  const base = {
+    confusionAngle,
+    cIndex: Math.round(cIndex * 100) / 100,
+    sIndex: Math.round(Math.min(sIndex, 99) * 100) / 100,
+    selective
+  };
+
+  if (cIndex < NORMAL_C_INDEX) {
+    return { ...base, type: 'normal', severity: 100, deficiency: null };
+  }
+
+  // Errors without a clear axis match no deficiency, so no type is guessed
+  if (!selective) {
+    return { ...base, type: null, severity: 0, deficiency: null };
+  }
+
+  const deficiency = (Object.keys(REFERENCE_MOMENTS) as Dichromacy[]).reduce((best, candidate) =>
+    axisDistance(moments.angle, REFERENCE_MOMENTS[candidate].angle) <
+    axisDistance(moments.angle, REFERENCE_MOMENTS[best].angle)
+      ? candidate
+      : best
+  );
+
+  // Scale between the normal threshold and a simulated dichromat's result
+  const reference = REFERENCE_MOMENTS[deficiency].cIndex;
+  const fraction = (cIndex - 1) / Math.max(reference - 1, NORMAL_C_INDEX - 1);
+  const severity = Math.max(0, Math.min(100, Math.round(fraction * 100)));
+
+  return severity >= DICHROMAT_SEVERITY
+    ? { ...base, type: ANOPIA_TYPES[deficiency], severity: 100, deficiency }
+    : { ...base, type: ANOMALY_TYPES[deficiency], severity, deficiency };
+}
@@ -6,20 +6,163 @@
  * of color vision deficiencies.
  */
 
-export type ColorBlindnessType = 
-  | 'normal'
-  | 'protanopia'
-  | 'protanomaly'
-  | 'deuteranopia'
-  | 'deuteranomaly'
-  | 'tritanopia'
-  | 'tritanomaly'
-  | 'achromatopsia'
-  | 'achromatomaly';
+import type { Dichromacy, Mat3, Vec3 } from './lms-simulation';
+import {
+  LMS_FROM_LINEAR_RGB,
+  getBrettelParams,
+  linearToSrgb,
+  lmsTransformToLinearRgb,
+  multiplyMat3,
+  simulateBrettelLinear,
+  srgbToLinear
+} from './lms-simulation';
+import { getMachadoMatrix } from './machado';
+import type { LowVisionLayer } from './low-vision';
+import {
+  LOW_VISION_INFO,
+  getLowVisionBlurRadius,
+  getLowVisionMatrix,
+  isFieldLossKind,
+  isLowVisionKind
+} from './low-vision';
+import { formatHex, parseColor } from './color-utils';
+import { createError, ErrorCodes } from './errors';
+import { CustomProfileSchema } from './profile-schema';
 
+/**
+ * Every built-in color blindness type, in display order.
+ * The ColorBlindnessType union, validation schema and type lists all
+ * derive from this array, so a new type only needs an entry here plus
+ * its FILTER_INFO and COLOR_MATRICES records.
+ */
+export const COLOR_BLINDNESS_TYPES = [
+  'normal',
+  'protanopia',
+  'protanomaly',
+  'deuteranopia',
+  'deuteranomaly',
+  'tritanopia',
+  'tritanomaly',
+  'achromatopsia',
+  'achromatomaly',
+  'blue-cone-monochromacy'
+] as const;
+
+export type BuiltInColorBlindnessType = typeof COLOR_BLINDNESS_TYPES[number];
+
+/**
+ * Built-in types plus `custom`, which takes its matrix from
+ * `FilterConfig.customProfile`
+ */
+export type ColorBlindnessType = BuiltInColorBlindnessType | 'custom';
+
+export type FilterCategory = 'normal' | 'red-green' | 'blue-yellow' | 'monochromacy' | 'custom';
+
+/**
+ * User-defined deficiency profile, e.g. a patient-specific matrix.
+ * - `matrix`: 20 values in feColorMatrix 4x5 format, applied like built-in matrices
+ * - `lms`: 9 values, a 3x3 transform in LMS cone space applied to linear light
+ */
+export interface CustomProfile {
+  id: string;
+  name: string;
+  description: string;
+  kind: 'matrix' | 'lms';
+  values: number[];
+}
+
+/**
+ * Algorithm used to simulate dichromatic and anomalous types.
+ * - `matrix`: Machado, Oliveira & Fernandes (2009) severity matrices, a single feColorMatrix
+ * - `brettel`: Brettel, Viénot & Mollon (1997) LMS half-plane projection
+ */
+export type SimulationAlgorithm = 'matrix' | 'brettel';
+
+/**
+ * Color space the filter matrices are applied in.
+ * - `sRGB`: gamma-encoded values (legacy behaviour, slightly distorted)
+ * - `linearRGB`: linearize, apply the matrix, then re-encode
+ */
+export type FilterColorSpace = 'sRGB' | 'linearRGB';
+
+/**
+ * What the filter does with the selected type.
+ * - `simulate`: show the page as a person with the deficiency sees it
+ * - `assist`: daltonize the page for a person with the deficiency,
+ *   moving contrast they cannot see into channels they can
+ */
+export type FilterMode = 'simulate' | 'assist';
+
+/**
+ * A color vision deficiency layer in a simulation stack
+ */
+export interface ColorLayer {
+  kind: 'color';
+  type: ColorBlindnessType;
+  severity: number; // 0-100
+  algorithm?: SimulationAlgorithm;
+  customProfile?: CustomProfile;
+}
+
+/**
+ * One step of a simulation stack: a color deficiency or a low-vision condition
+ */
+export type SimulationLayer = ColorLayer | LowVisionLayer;
+
+/**
+ * Ordered layers applied to the page, first layer first.
+ * The whole chain runs in a single color interpolation space.
+ */
+export interface SimulationStack {
+  layers: SimulationLayer[];
+  colorSpace: FilterColorSpace;
+}
+
+/**
+ * Maximum number of layers in a stack, including the primary type
+ */
+export const MAX_STACK_LAYERS = 8;
+
+/**
+ * Maximum length of a scope selector
+ */
+export const MAX_SCOPE_LENGTH = 500;
+
+/**
+ * Persisted and messaged filter state. The top-level type and severity
+ * form the primary layer; `layers` are applied after it, in order.
+ * In assist mode `type` is the viewer's own deficiency, `severity` is the
+ * correction strength and `layers` are ignored.
+ */
 export interface FilterConfig {
   type: ColorBlindnessType;
-  severity: number; // 0-100, used for anomaly types
+  severity: number; // 0-100, ignored for achromatopsia
+  mode?: FilterMode; // defaults to 'simulate'
+  algorithm?: SimulationAlgorithm; // defaults to 'matrix'
+  colorSpace?: FilterColorSpace; // defaults to 'sRGB', Brettel always uses 'linearRGB'
+  customProfile?: CustomProfile; // required when type is 'custom'
+  layers?: SimulationLayer[]; // additional layers stacked after the primary type
+  scope?: string; // CSS selector of the elements to filter, defaults to the whole page
+}
+
+/**
+ * Accuracy options shared by every filter type
+ */
+export type SimulationOptions = Pick<FilterConfig, 'algorithm' | 'colorSpace'>;
+
+export interface AlgorithmInfo {
+  algorithm: SimulationAlgorithm;
+  name: string;
+  description: string;
+}
+
+/**
+ * A single SVG filter primitive (e.g. feColorMatrix) and its child elements
+ */
+export interface SVGFilterPrimitive {
+  tag: string;
+  attributes: Record<string, string>;
+  children?: SVGFilterPrimitive[];
 }
 
 export interface FilterInfo {
@@ -29,62 +172,48 @@ export interface FilterInfo {
   description: string;
   affectedCone: string;
   prevalence: string;
-  category: 'normal' | 'red-green' | 'blue-yellow' | 'monochromacy';
+  category: FilterCategory;
+  rare?: boolean; // grouped under "Rare Conditions" instead of its category
+}
+
+/**
+ * Display labels for each filter category
+ */
+export const FILTER_CATEGORY_LABELS: Record<FilterCategory, string> = {
+  'normal': 'Normal',
+  'red-green': 'Red-Green (most common)',
+  'blue-yellow': 'Blue-Yellow',
+  'monochromacy': 'Monochromacy',
+  'custom': 'Custom Profiles'
+};
+
+const RARE_CATEGORY_LABEL = 'Rare Conditions';
+
+/**
+ * Grayscale matrix weighted by S-cone sensitivity, for blue-cone monochromacy
+ * where only S-cones (and rods) contribute to vision
+ */
+function sConeGrayscaleMatrix(): number[] {
+  const [r, g, b] = LMS_FROM_LINEAR_RGB.slice(6, 9);
+  const total = r + g + b;
+  const row = [r / total, g / total, b / total];
+  return toFilterMatrix([...row, ...row, ...row] as Mat3);
 }
 
 /**
- * Color matrix values for each type of color blindness.
+ * Full-strength color matrix values for each type of color blindness.
  * These are 5x4 matrices in row-major order for use with SVG feColorMatrix.
  * Format: [R->R, G->R, B->R, A->R, offset-R, R->G, G->G, B->G, A->G, offset-G, ...]
  */
-const COLOR_MATRICES: Record<Exclude<ColorBlindnessType, 'normal'>, number[]> = {
-  // Protanopia (red-blind) - no red cone function
-  protanopia: [
-    0.567, 0.433, 0.000, 0, 0,
-    0.558, 0.442, 0.000, 0, 0,
-    0.000, 0.242, 0.758, 0, 0,
-    0.000, 0.000, 0.000, 1, 0
-  ],
-  
-  // Protanomaly (red-weak) - reduced red cone function
-  protanomaly: [
-    0.817, 0.183, 0.000, 0, 0,
-    0.333, 0.667, 0.000, 0, 0,
-    0.000, 0.125, 0.875, 0, 0,
-    0.000, 0.000, 0.000, 1, 0
-  ],
-  
-  // Deuteranopia (green-blind) - no green cone function
-  deuteranopia: [
-    0.625, 0.375, 0.000, 0, 0,
-    0.700, 0.300, 0.000, 0, 0,
-    0.000, 0.300, 0.700, 0, 0,
-    0.000, 0.000, 0.000, 1, 0
-  ],
-  
-  // Deuteranomaly (green-weak) - reduced green cone function
-  deuteranomaly: [
-    0.800, 0.200, 0.000, 0, 0,
-    0.258, 0.742, 0.000, 0, 0,
-    0.000, 0.142, 0.858, 0, 0,
-    0.000, 0.000, 0.000, 1, 0
-  ],
-  
-  // Tritanopia (blue-blind) - no blue cone function
-  tritanopia: [
-    0.950, 0.050, 0.000, 0, 0,
-    0.000, 0.433, 0.567, 0, 0,
-    0.000, 0.475, 0.525, 0, 0,
-    0.000, 0.000, 0.000, 1, 0
-  ],
-  
-  // Tritanomaly (blue-weak) - reduced blue cone function
-  tritanomaly: [
-    0.967, 0.033, 0.000, 0, 0,
-    0.000, 0.733, 0.267, 0, 0,
-    0.000, 0.183, 0.817, 0, 0,
-    0.000, 0.000, 0.000, 1, 0
-  ],
+const COLOR_MATRICES: Record<Exclude<ColorBlindnessType, 'normal' | 'custom'>, number[]> = {
+  // Protan, deutan and tritan types use the Machado (2009) tables at full
+  // severity, where anomalous trichromacy becomes dichromacy
+  protanopia: toFilterMatrix(getMachadoMatrix('protan', 1)),
+  protanomaly: toFilterMatrix(getMachadoMatrix('protan', 1)),
+  deuteranopia: toFilterMatrix(getMachadoMatrix('deutan', 1)),
+  deuteranomaly: toFilterMatrix(getMachadoMatrix('deutan', 1)),
+  tritanopia: toFilterMatrix(getMachadoMatrix('tritan', 1)),
+  tritanomaly: toFilterMatrix(getMachadoMatrix('tritan', 1)),
   
   // Achromatopsia (complete color blindness) - grayscale
   achromatopsia: [
@@ -100,7 +229,10 @@ const COLOR_MATRICES: Record<Exclude<ColorBlindnessType, 'normal'>, number[]> =
     0.163, 0.775, 0.062, 0, 0,
     0.163, 0.320, 0.516, 0, 0,
     0.000, 0.000, 0.000, 1, 0
-  ]
+  ],
+  
+  // Blue-cone monochromacy - only S-cones function
+  'blue-cone-monochromacy': sConeGrayscaleMatrix()
 };
 
 // Identity matrix for normal vision
@@ -195,9 +327,136 @@ export const FILTER_INFO: Record<ColorBlindnessType, FilterInfo> = {
     affectedCone: 'All cones - reduced',
     prevalence: 'Very rare',
     category: 'monochromacy'
+  },
+  'blue-cone-monochromacy': {
+    type: 'blue-cone-monochromacy',
+    name: 'Blue-Cone Monochromacy',
+    shortName: 'BCM',
+    description: 'X-linked absence of red and green cone function. Vision relies on blue cones and rods, so reds appear very dark and blues appear bright.',
+    affectedCone: 'L- and M-cones (red, green)',
+    prevalence: '~0.001% of population',
+    category: 'monochromacy',
+    rare: true
+  },
+  custom: {
+    type: 'custom',
+    name: 'Custom Profile',
+    shortName: 'Custom',
+    description: 'User-defined deficiency profile.',
+    affectedCone: 'User-defined',
+    prevalence: 'Individual',
+    category: 'custom'
+  }
+};
+
+/**
+ * Get display information for a config, using the custom profile's
+ * name and description when one is selected
+ */
+export function getFilterInfo(config: Pick<FilterConfig, 'type' | 'customProfile'>): FilterInfo {
+  const info = FILTER_INFO[config.type];
+  if (config.type !== 'custom' || !config.customProfile) {
+    return info;
+  }
+  
+  return {
+    ...info,
+    name: config.customProfile.name,
+    shortName: config.customProfile.name,
+    description: config.customProfile.description || info.description
+  };
+}
+
+/**
+ * Get the display name of a single stack layer
+ */
+export function getLayerLabel(layer: SimulationLayer, short: boolean = false): string {
+  if (layer.kind === 'color') {
+    const info = getFilterInfo(layer);
+    return short ? info.shortName : info.name;
+  }
+  return LOW_VISION_INFO[layer.kind].name;
+}
+
+/**
+ * Get a label for everything a config simulates
+ * @example
+ * ```typescript
+ * getSimulationLabel({ type: 'deuteranopia', severity: 100, layers: [{ kind: 'blur', severity: 40 }] })
+ * // 'Deuteranopia + Blurred Vision'
+ * ```
+ */
+export function getSimulationLabel(config: FilterConfig, short: boolean = false): string {
+  if (config.mode === 'assist') {
+    return `${getLayerLabel(getPrimaryLayer(config), short)} Assist`;
+  }
+  
+  const { layers } = getSimulationStack(config);
+  if (layers.length === 0) {
+    return getLayerLabel({ kind: 'color', type: 'normal', severity: 100 }, short);
+  }
+  return layers.map(layer => getLayerLabel(layer, short)).join(' + ');
+}
+
+/**
+ * Get the full-strength 4x5 matrix for a custom profile
+ */
+export function getCustomProfileMatrix(profile: CustomProfile): number[] {
+  if (profile.kind === 'lms') {
+    return toFilterMatrix(lmsTransformToLinearRgb(profile.values as Mat3));
+  }
+  return [...profile.values];
+}
+
+/**
+ * Information about each simulation algorithm
+ */
+export const ALGORITHM_INFO: Record<SimulationAlgorithm, AlgorithmInfo> = {
+  matrix: {
+    algorithm: 'matrix',
+    name: 'Machado 2009 (Matrix)',
+    description: 'Fast severity-parameterized color matrices from Machado, Oliveira & Fernandes.'
+  },
+  brettel: {
+    algorithm: 'brettel',
+    name: 'Brettel 1997 (LMS)',
+    description: 'Projects colors onto the dichromat half-planes in LMS cone space. Matches published research tools.'
   }
 };
 
+/**
+ * Get the missing cone class for protan, deutan and tritan types
+ * @returns The dichromacy, or null for normal vision and monochromacy
+ */
+export function getDichromacy(type: ColorBlindnessType): Dichromacy | null {
+  if (type.startsWith('protan')) return 'protan';
+  if (type.startsWith('deuteran')) return 'deutan';
+  if (type.startsWith('tritan')) return 'tritan';
+  return null;
+}
+
+/**
+ * Get the algorithm that will actually be used for a config.
+ * Monochromacy types always use the color matrix pipeline.
+ */
+export function getEffectiveAlgorithm(config: FilterConfig): SimulationAlgorithm {
+  if (config.algorithm === 'brettel' && getDichromacy(config.type)) {
+    return 'brettel';
+  }
+  return 'matrix';
+}
+
+/**
+ * Get the simulation strength (0-1) for a config.
+ * Types without a severity control always use full strength.
+ */
+function getSeverityFactor(config: FilterConfig): number {
+  if (!isSeverityAdjustable(config.type)) {
+    return 1;
+  }
+  return Math.max(0, Math.min(100, config.severity)) / 100;
+}
+
 /**
  * Get the color matrix for a specific type with optional severity interpolation
  */
@@ -206,15 +465,23 @@ export function getColorMatrix(config: FilterConfig): number[] {
     return [...IDENTITY_MATRIX];
   }
   
-  const targetMatrix = COLOR_MATRICES[config.type];
+  const severity = getSeverityFactor(config);
   
-  // For full deficiency types (not anomaly), use full matrix
-  if (!config.type.includes('anomaly') && !config.type.includes('achromatomaly')) {
-    return [...targetMatrix];
+  // Protan, deutan and tritan types interpolate the Machado severity tables
+  const deficiency = getDichromacy(config.type);
+  if (deficiency) {
+    return toFilterMatrix(getMachadoMatrix(deficiency, severity));
   }
   
-  // For anomaly types, interpolate based on severity
-  const severity = Math.max(0, Math.min(100, config.severity)) / 100;
+  // Monochromacy types and custom profiles interpolate between identity and the full matrix
+  let targetMatrix: number[];
+  if (config.type === 'custom') {
+    targetMatrix = config.customProfile
+      ? getCustomProfileMatrix(config.customProfile)
+      : IDENTITY_MATRIX;
+  } else {
+    targetMatrix = COLOR_MATRICES[config.type];
+  }
   
   return IDENTITY_MATRIX.map((identityVal, i) => {
     const targetVal = targetMatrix[i];
@@ -223,90 +490,578 @@ export function getColorMatrix(config: FilterConfig): number[] {
 }
 
 /**
- * Generate SVG filter element string
+ * How the daltonization error (original minus simulated color) is
+ * redistributed: protan and deutan errors move into green and blue,
+ * tritan errors into red and green. Fidaner, Lin & Ozguven (2005).
  */
-export function generateSVGFilter(config: FilterConfig): string {
-  if (config.type === 'normal') {
-    return '';
+const ERROR_SHIFT_MATRICES: Record<Dichromacy, Mat3> = {
+  protan: [
+    0, 0, 0,
+    0.7, 1, 0,
+    0.7, 0, 1
+  ],
+  deutan: [
+    0, 0, 0,
+    0.7, 1, 0,
+    0.7, 0, 1
+  ],
+  tritan: [
+    1, 0, 0.7,
+    0, 1, 0.7,
+    0, 0, 0
+  ]
+};
+
+/**
+ * Check if a type can be corrected in assist mode.
+ * Monochromacy has no remaining color channel to shift contrast into.
+ */
+export function isCorrectableType(type: ColorBlindnessType): boolean {
+  return getDichromacy(type) !== null;
+}
+
+/**
+ * Get the daltonization matrix for a deficiency:
+ * `I + strength · shift · (I − simulation)`, built from the full-strength
+ * simulation matrix in COLOR_MATRICES
+ * @param strength - Correction strength, 0-100
+ * @returns A 4x5 matrix, identity for types that cannot be corrected
+ */
+export function getCorrectionMatrix(type: ColorBlindnessType, strength: number): number[] {
+  const deficiency = getDichromacy(type);
+  if (!deficiency || type === 'custom' || type === 'normal') {
+    return [...IDENTITY_MATRIX];
   }
   
-  const matrix = getColorMatrix(config);
-  const matrixString = matrix.join(' ');
+  const simulation = COLOR_MATRICES[type];
+  const error = [0, 1, 2].flatMap(row =>
+    [0, 1, 2].map(col => (row === col ? 1 : 0) - simulation[row * 5 + col])
+  ) as Mat3;
+  const shifted = multiplyMat3(ERROR_SHIFT_MATRICES[deficiency], error);
+  const factor = Math.max(0, Math.min(100, strength)) / 100;
   
-  return `
-    <svg xmlns="http://www.w3.org/2000/svg" style="position: absolute; width: 0; height: 0; overflow: hidden;">
-      <defs>
-        <filter id="colorblind-filter" color-interpolation-filters="sRGB">
-          <feColorMatrix type="matrix" values="${matrixString}"/>
-        </filter>
-      </defs>
-    </svg>
-  `.trim();
+  return toFilterMatrix(
+    shifted.map((value, i) => (i % 4 === 0 ? 1 : 0) + value * factor) as Mat3
+  );
 }
 
 /**
- * Generate inline SVG filter for injection
+ * Expand a 3x3 RGB matrix into the 4x5 feColorMatrix format
  */
-export function generateSVGFilterElement(config: FilterConfig): SVGSVGElement | null {
-  if (config.type === 'normal') {
-    return null;
+function toFilterMatrix(m: Mat3): number[] {
+  return [
+    m[0], m[1], m[2], 0, 0,
+    m[3], m[4], m[5], 0, 0,
+    m[6], m[7], m[8], 0, 0,
+    0, 0, 0, 1, 0
+  ];
+}
+
+function formatMatrix(matrix: number[]): string {
+  return matrix.map(value => Number(value.toFixed(6))).join(' ');
+}
+
+/**
+ * Build the Brettel filter chain: project onto both half-planes, build a
+ * binary mask from the separation plane, and keep the matching wing.
+ */
+function getBrettelPrimitives(
+  deficiency: Dichromacy,
+  severity: number,
+  input: string = 'SourceGraphic',
+  prefix: string = 'cb'
+): SVGFilterPrimitive[] {
+  const { planeA, planeB, separation } = getBrettelParams(deficiency);
+  
+  // Scale the unit normal so any visible difference flips the 8-bit mask
+  const length = Math.hypot(...separation);
+  const side = separation.map(value => (value / length) * 255);
+  
+  const primitives: SVGFilterPrimitive[] = [
+    {
+      tag: 'feColorMatrix',
+      attributes: { in: input, type: 'matrix', values: formatMatrix(toFilterMatrix(planeA)), result: `${prefix}-plane-a` }
+    },
+    {
+      tag: 'feColorMatrix',
+      attributes: { in: input, type: 'matrix', values: formatMatrix(toFilterMatrix(planeB)), result: `${prefix}-plane-b` }
+    },
+    {
+      tag: 'feColorMatrix',
+      attributes: {
+        in: input,
+        type: 'matrix',
+        values: formatMatrix([
+          0, 0, 0, 0, 0,
+          0, 0, 0, 0, 0,
+          0, 0, 0, 0, 0,
+          side[0], side[1], side[2], 0, 0.5
+        ]),
+        result: `${prefix}-side`
+      }
+    },
+    {
+      tag: 'feComponentTransfer',
+      attributes: { in: `${prefix}-side`, result: `${prefix}-mask` },
+      children: [{ tag: 'feFuncA', attributes: { type: 'discrete', tableValues: '0 1' } }]
+    },
+    {
+      tag: 'feComposite',
+      attributes: { in: `${prefix}-plane-a`, in2: `${prefix}-mask`, operator: 'in', result: `${prefix}-wing-a` }
+    },
+    {
+      tag: 'feComposite',
+      attributes: { in: `${prefix}-plane-b`, in2: `${prefix}-mask`, operator: 'out', result: `${prefix}-wing-b` }
+    },
+    {
+      tag: 'feComposite',
+      attributes: { in: `${prefix}-wing-a`, in2: `${prefix}-wing-b`, operator: 'arithmetic', k1: '0', k2: '1', k3: '1', k4: '0', result: `${prefix}-dichromat` }
+    }
+  ];
+  
+  // Anomalous trichromacy blends the dichromat result with the original
+  if (severity < 1) {
+    primitives.push({
+      tag: 'feComposite',
+      attributes: {
+        in: `${prefix}-dichromat`,
+        in2: input,
+        operator: 'arithmetic',
+        k1: '0',
+        k2: String(severity),
+        k3: String(1 - severity),
+        k4: '0'
+      }
+    });
   }
   
-  const svgString = generateSVGFilter(config);
-  const parser = new DOMParser();
-  const doc = parser.parseFromString(svgString, 'image/svg+xml');
-  return doc.documentElement as unknown as SVGSVGElement;
+  return primitives;
+}
+
+/**
+ * Get the primary layer described by a config's top-level fields
+ */
+export function getPrimaryLayer(config: FilterConfig): ColorLayer {
+  const layer: ColorLayer = { kind: 'color', type: config.type, severity: config.severity };
+  if (config.algorithm) layer.algorithm = config.algorithm;
+  if (config.customProfile) layer.customProfile = config.customProfile;
+  return layer;
+}
+
+function isLayerActive(layer: SimulationLayer): boolean {
+  if (layer.kind === 'color') {
+    return layer.type !== 'normal' && (layer.type !== 'custom' || !!layer.customProfile);
+  }
+  return layer.severity > 0;
+}
+
+/**
+ * Get the ordered simulation stack for a config: the primary type first,
+ * then the additional layers. Inactive layers (normal vision, zero
+ * severity low vision) are dropped.
+ */
+export function getSimulationStack(config: FilterConfig): SimulationStack {
+  if (config.mode === 'assist') {
+    return { layers: [], colorSpace: config.colorSpace ?? 'sRGB' };
+  }
+  
+  const layers = [getPrimaryLayer(config), ...(config.layers ?? [])].filter(isLayerActive);
+  
+  // Brettel and LMS profiles are defined on linear light, so they switch the whole chain
+  const needsLinear = layers.some(layer =>
+    layer.kind === 'color' &&
+    (getEffectiveAlgorithm(layer) === 'brettel' || layer.customProfile?.kind === 'lms')
+  );
+  
+  return {
+    layers,
+    colorSpace: needsLinear ? 'linearRGB' : config.colorSpace ?? 'sRGB'
+  };
+}
+
+/**
+ * Get the color interpolation space the filter chain runs in.
+ * The Brettel engine is defined on linear light, so it always uses linearRGB.
+ */
+export function getFilterColorInterpolation(config: FilterConfig): FilterColorSpace {
+  return getSimulationStack(config).colorSpace;
+}
+
+/**
+ * Check if a config simulates anything, either a color deficiency or a
+ * low-vision condition
+ */
+export function hasActiveSimulation(config: FilterConfig): boolean {
+  if (config.mode === 'assist') {
+    return isCorrectableType(config.type) && config.severity > 0;
+  }
+  return getSimulationStack(config).layers.length > 0;
+}
+
+/**
+ * Get the field loss layers of a config, rendered as an overlay instead of a filter
+ */
+export function getFieldLossLayers(config: FilterConfig): LowVisionLayer[] {
+  return getSimulationStack(config).layers.filter(
+    (layer): layer is LowVisionLayer => layer.kind !== 'color' && isFieldLossKind(layer.kind)
+  );
+}
+
+/**
+ * Compose two 4x5 color matrices into one that applies `first`, then `second`.
+ * Equivalent to chaining the two feColorMatrix primitives, except that the
+ * intermediate result is not clamped.
+ */
+export function composeFilterMatrices(first: number[], second: number[]): number[] {
+  const composed = new Array<number>(20);
+  for (let row = 0; row < 4; row++) {
+    for (let col = 0; col < 5; col++) {
+      let value = col === 4 ? second[row * 5 + 4] : 0;
+      for (let k = 0; k < 4; k++) {
+        value += second[row * 5 + k] * first[k * 5 + col];
+      }
+      composed[row * 5 + col] = value;
+    }
+  }
+  return composed;
+}
+
+/**
+ * One step of the compiled filter chain. Consecutive matrix layers are
+ * merged into a single matrix stage.
+ */
+type FilterStage =
+  | { op: 'matrix'; matrix: number[] }
+  | { op: 'brettel'; deficiency: Dichromacy; severity: number }
+  | { op: 'blur'; radius: number };
+
+function getFilterStages(config: FilterConfig): FilterStage[] {
+  if (config.mode === 'assist') {
+    return hasActiveSimulation(config)
+      ? [{ op: 'matrix', matrix: getCorrectionMatrix(config.type, config.severity) }]
+      : [];
+  }
+  
+  const stages: FilterStage[] = [];
+  
+  const pushMatrix = (matrix: number[]) => {
+    const last = stages[stages.length - 1];
+    if (last?.op === 'matrix') {
+      last.matrix = composeFilterMatrices(last.matrix, matrix);
+    } else {
+      stages.push({ op: 'matrix', matrix });
+    }
+  };
+  
+  for (const layer of getSimulationStack(config).layers) {
+    if (layer.kind === 'color') {
+      const deficiency = getDichromacy(layer.type);
+      if (deficiency && getEffectiveAlgorithm(layer) === 'brettel') {
+        stages.push({ op: 'brettel', deficiency, severity: getSeverityFactor(layer) });
+      } else {
+        pushMatrix(getColorMatrix(layer));
+      }
+      continue;
+    }
+    
+    const matrix = getLowVisionMatrix(layer);
+    if (matrix) {
+      pushMatrix(matrix);
+    }
+    const radius = getLowVisionBlurRadius(layer);
+    if (radius > 0) {
+      // Two Gaussian blurs in a row are one blur with the variances added
+      const last = stages[stages.length - 1];
+      if (last?.op === 'blur') {
+        last.radius = Math.hypot(last.radius, radius);
+      } else {
+        stages.push({ op: 'blur', radius });
+      }
+    }
+  }
+  
+  return stages;
+}
+
+/**
+ * Get the SVG filter primitives that implement a config, built from its
+ * simulation stack. Visual field loss is not part of the filter chain.
+ */
+export function getSVGFilterPrimitives(config: FilterConfig): SVGFilterPrimitive[] {
+  const primitives: SVGFilterPrimitive[] = [];
+  let input = 'SourceGraphic';
+  
+  getFilterStages(config).forEach((stage, index) => {
+    const result = `cb-stage-${index}`;
+    let stagePrimitives: SVGFilterPrimitive[];
+    
+    if (stage.op === 'brettel') {
+      stagePrimitives = getBrettelPrimitives(stage.deficiency, stage.severity, input, `cb-${index}`);
+    } else if (stage.op === 'matrix') {
+      stagePrimitives = [{
+        tag: 'feColorMatrix',
+        attributes: { in: input, type: 'matrix', values: formatMatrix(stage.matrix) }
+      }];
+    } else {
+      stagePrimitives = [{
+        tag: 'feGaussianBlur',
+        attributes: { in: input, stdDeviation: String(Number(stage.radius.toFixed(2))) }
+      }];
+    }
+    
+    stagePrimitives[stagePrimitives.length - 1].attributes.result = result;
+    primitives.push(...stagePrimitives);
+    input = result;
+  });
+  
+  return primitives;
+}
+
+/**
+ * Results of the comparison split, for moving the divider without
+ * rebuilding the filter
+ */
+export const COMPARISON_RESULTS = {
+  original: 'cb-original',
+  simulated: 'cb-simulated'
+} as const;
+
+// Wide enough to reach past either edge of any page
+const COMPARISON_EXTENT = 1e6;
+
+/**
+ * Subregions of the comparison split, keyed like COMPARISON_RESULTS
+ * @param x - Divider position in CSS pixels from the filtered element's left edge
+ */
+export function getComparisonSubregions(x: number): Record<keyof typeof COMPARISON_RESULTS, { x: string; width: string }> {
+  return {
+    original: { x: String(-COMPARISON_EXTENT), width: String(COMPARISON_EXTENT + x) },
+    simulated: { x: String(x), width: String(COMPARISON_EXTENT) }
+  };
+}
+
+/**
+ * Split the filter output at a vertical line: the unfiltered source left
+ * of it and the simulation right of it
+ * @param x - Divider position in CSS pixels from the filtered element's left edge
+ */
+export function getComparisonPrimitives(
+  primitives: SVGFilterPrimitive[],
+  x: number
+): SVGFilterPrimitive[] {
+  if (primitives.length === 0) {
+    return primitives;
+  }
+  
+  const subregions = getComparisonSubregions(x);
+  return [
+    ...primitives,
+    {
+      tag: 'feOffset',
+      attributes: { in: 'SourceGraphic', ...subregions.original, result: COMPARISON_RESULTS.original }
+    },
+    {
+      tag: 'feOffset',
+      attributes: {
+        in: primitives[primitives.length - 1].attributes.result,
+        ...subregions.simulated,
+        result: COMPARISON_RESULTS.simulated
+      }
+    },
+    {
+      tag: 'feMerge',
+      attributes: {},
+      children: [
+        { tag: 'feMergeNode', attributes: { in: COMPARISON_RESULTS.original } },
+        { tag: 'feMergeNode', attributes: { in: COMPARISON_RESULTS.simulated } }
+      ]
+    }
+  ];
+}
+
+/**
+ * Apply a 4x5 color matrix to an RGB color, clamping like the filter chain
+ */
+function applyFilterMatrix(matrix: number[], rgb: Vec3): Vec3 {
+  return [0, 1, 2].map((row) => {
+    const offset = row * 5;
+    const value =
+      matrix[offset] * rgb[0] +
+      matrix[offset + 1] * rgb[1] +
+      matrix[offset + 2] * rgb[2] +
+      matrix[offset + 3] +
+      matrix[offset + 4];
+    return Math.max(0, Math.min(1, value));
+  }) as Vec3;
+}
+
+/**
+ * Apply a filter config to a single color without touching the DOM.
+ * Mirrors the SVG filter chain, including its color interpolation space
+ * and the clamping done after each stage, so results match the page.
+ * Blur and field loss are spatial and leave a single color unchanged.
+ * @param rgb - sRGB color, channels 0-1
+ * @param config - Filter configuration
+ * @returns Simulated sRGB color, channels 0-1
+ */
+export function simulateRgb(rgb: Vec3, config: FilterConfig): Vec3 {
+  const isLinear = getFilterColorInterpolation(config) === 'linearRGB';
+  let color = (isLinear ? rgb.map(srgbToLinear) : [...rgb]) as Vec3;
+  
+  for (const stage of getFilterStages(config)) {
+    if (stage.op === 'matrix') {
+      color = applyFilterMatrix(stage.matrix, color);
+    } else if (stage.op === 'brettel') {
+      color = simulateBrettelLinear(color, stage.deficiency, stage.severity)
+        .map(value => Math.max(0, Math.min(1, value))) as Vec3;
+    }
+  }
+  
+  return (isLinear ? color.map(linearToSrgb) : color) as Vec3;
+}
+
+/**
+ * Simulate how a CSS color looks under a filter config
+ * @param color - Hex, rgb() or hsl() color string
+ * @param config - Filter configuration
+ * @returns Simulated color as a hex string (alpha is preserved)
+ * @throws ExtensionError with code INVALID_COLOR if the color cannot be parsed
+ * @example
+ * ```typescript
+ * simulateColor('#E53935', { type: 'deuteranopia', severity: 100 })
+ * ```
+ */
+export function simulateColor(color: string, config: FilterConfig): string {
+  const parsed = parseColor(color);
+  if (!parsed) {
+    throw createError(ErrorCodes.INVALID_COLOR, `Unable to parse color: ${color}`);
+  }
+  
+  const [r, g, b] = simulateRgb([parsed.r / 255, parsed.g / 255, parsed.b / 255], config);
+  return formatHex({ r: r * 255, g: g * 255, b: b * 255, a: parsed.a });
+}
+
+/**
+ * Simulate a list of CSS colors under a filter config
+ * @returns Simulated hex colors in the same order as the input
+ * @throws ExtensionError with code INVALID_COLOR if any color cannot be parsed
+ */
+export function simulatePalette(colors: string[], config: FilterConfig): string[] {
+  return colors.map(color => simulateColor(color, config));
+}
+
+// Id of the <filter> element, referenced as url(#colorblind-filter)
+export const SVG_FILTER_ID = 'colorblind-filter';
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+/**
+ * Build filter primitives as SVG elements
+ */
+function createSVGFilterPrimitiveElements(primitives: SVGFilterPrimitive[]): SVGElement[] {
+  return primitives.map((primitive) => {
+    const element = document.createElementNS(SVG_NAMESPACE, primitive.tag);
+    for (const [name, value] of Object.entries(primitive.attributes)) {
+      element.setAttribute(name, value);
+    }
+    if (primitive.children) {
+      element.append(...createSVGFilterPrimitiveElements(primitive.children));
+    }
+    return element;
+  });
+}
+
+/**
+ * Generate inline SVG filter for injection. The tree is built node by node
+ * and no markup is parsed, so pages that enforce Trusted Types or a strict
+ * CSP accept it.
+ * @param primitives - Primitives to use instead of the config's own, e.g. split for a comparison
+ * @returns null when the config has no filter primitives
+ */
+export function generateSVGFilterElement(
+  config: FilterConfig,
+  primitives: SVGFilterPrimitive[] = getSVGFilterPrimitives(config)
+): SVGSVGElement | null {
+  if (primitives.length === 0) {
+    return null;
+  }
+
+  const svg = document.createElementNS(SVG_NAMESPACE, 'svg');
+  svg.setAttribute('aria-hidden', 'true');
+  // Set through the CSSOM, which CSP does not restrict, not the style attribute
+  svg.style.cssText = 'position: absolute; width: 0; height: 0; overflow: hidden; pointer-events: none;';
+
+  const filter = document.createElementNS(SVG_NAMESPACE, 'filter');
+  filter.setAttribute('id', SVG_FILTER_ID);
+  filter.setAttribute('color-interpolation-filters', getFilterColorInterpolation(config));
+  filter.append(...createSVGFilterPrimitiveElements(primitives));
+
+  const defs = document.createElementNS(SVG_NAMESPACE, 'defs');
+  defs.appendChild(filter);
+  svg.appendChild(defs);
+  return svg;
 }
 
 /**
  * Get CSS filter string for fallback or simple application
  */
 export function generateCSSFilter(config: FilterConfig): string {
-  if (config.type === 'normal') {
+  if (getSVGFilterPrimitives(config).length === 0) {
     return 'none';
   }
   
+  // A stack with more than the primary layer needs the full SVG chain
+  if (getSimulationStack(config).layers.length > 1) {
+    return `url(#${SVG_FILTER_ID})`;
+  }
+  
+  // Daltonization has no CSS equivalent either
+  if (config.mode === 'assist') {
+    return `url(#${SVG_FILTER_ID})`;
+  }
+  
   // For grayscale types, we can use CSS grayscale filter
-  if (config.type === 'achromatopsia') {
+  if (config.type === 'achromatopsia' && !config.layers?.length) {
     return 'grayscale(100%)';
   }
   
-  if (config.type === 'achromatomaly') {
+  if (config.type === 'achromatomaly' && !config.layers?.length) {
     const severity = config.severity / 100;
     return `grayscale(${severity * 100}%)`;
   }
   
   // For other types, we need to use SVG filter reference
-  return 'url(#colorblind-filter)';
+  return `url(#${SVG_FILTER_ID})`;
 }
 
 /**
- * Get all available filter types
+ * Get all built-in filter types (custom profiles are listed separately)
  */
-export function getAllFilterTypes(): ColorBlindnessType[] {
-  return [
-    'normal',
-    'protanopia',
-    'protanomaly',
-    'deuteranopia',
-    'deuteranomaly',
-    'tritanopia',
-    'tritanomaly',
-    'achromatopsia',
-    'achromatomaly'
-  ];
+export function getAllFilterTypes(): BuiltInColorBlindnessType[] {
+  return [...COLOR_BLINDNESS_TYPES];
 }
 
 /**
- * Get filter types grouped by category
+ * Get filter types grouped by category label.
+ * Types marked as rare are collected in a trailing "Rare Conditions" group.
  */
 export function getFiltersByCategory(): Record<string, ColorBlindnessType[]> {
-  return {
-    'Normal': ['normal'],
-    'Red-Green (most common)': ['protanopia', 'protanomaly', 'deuteranopia', 'deuteranomaly'],
-    'Blue-Yellow': ['tritanopia', 'tritanomaly'],
-    'Monochromacy': ['achromatopsia', 'achromatomaly']
-  };
+  const groups: Record<string, ColorBlindnessType[]> = {};
+  
+  for (const type of COLOR_BLINDNESS_TYPES) {
+    const info = FILTER_INFO[type];
+    const label = info.rare ? RARE_CATEGORY_LABEL : FILTER_CATEGORY_LABELS[info.category];
+    (groups[label] ??= []).push(type);
+  }
+  
+  // Keep the rare group last regardless of where its first member appears
+  const rare = groups[RARE_CATEGORY_LABEL];
+  if (rare) {
+    delete groups[RARE_CATEGORY_LABEL];
+    groups[RARE_CATEGORY_LABEL] = rare;
+  }
+  
+  return groups;
 }
 
 /**
@@ -316,6 +1071,20 @@ export function isAnomalyType(type: ColorBlindnessType): boolean {
   return type.includes('anomaly') || type === 'achromatomaly';
 }
 
+/**
+ * Check if a filter type has a continuous severity control
+ */
+export function isSeverityAdjustable(type: ColorBlindnessType): boolean {
+  return type !== 'normal' && type !== 'achromatopsia';
+}
+
+/**
+ * Get all available simulation algorithms
+ */
+export function getAllAlgorithms(): SimulationAlgorithm[] {
+  return ['matrix', 'brettel'];
+}
+
 /**
  * Get default severity for a filter type
  */
@@ -340,17 +1109,7 @@ export function createDefaultConfig(): FilterConfig {
  * Valid color blindness types - used for validation
  * @internal
  */
-const VALID_TYPES: Set<ColorBlindnessType> = new Set([
-  'normal',
-  'protanopia',
-  'protanomaly',
-  'deuteranopia',
-  'deuteranomaly',
-  'tritanopia',
-  'tritanomaly',
-  'achromatopsia',
-  'achromatomaly'
-]);
+const VALID_TYPES: Set<ColorBlindnessType> = new Set([...COLOR_BLINDNESS_TYPES, 'custom']);
 
 /**
  * Check if a value is a valid color blindness type
@@ -366,6 +1125,20 @@ export function isValidType(type: unknown): type is ColorBlindnessType {
   return typeof type === 'string' && VALID_TYPES.has(type as ColorBlindnessType);
 }
 
+/**
+ * Check if a value is a valid simulation algorithm
+ */
+export function isValidAlgorithm(algorithm: unknown): algorithm is SimulationAlgorithm {
+  return algorithm === 'matrix' || algorithm === 'brettel';
+}
+
+/**
+ * Check if a value is a valid filter color space
+ */
+export function isValidColorSpace(colorSpace: unknown): colorSpace is FilterColorSpace {
+  return colorSpace === 'sRGB' || colorSpace === 'linearRGB';
+}
+
 /**
  * Sanitize and validate severity value
  * @param severity - The severity value to sanitize
@@ -390,7 +1163,80 @@ export function sanitizeSeverity(severity: unknown): number {
 export function normalizeConfig(config: Partial<FilterConfig>): FilterConfig {
   const type = isValidType(config.type) ? config.type : 'normal';
   const severity = sanitizeSeverity(config.severity);
+  const normalized: FilterConfig = { type, severity };
+  
+  if (isValidAlgorithm(config.algorithm)) {
+    normalized.algorithm = config.algorithm;
+  }
+  if (isValidColorSpace(config.colorSpace)) {
+    normalized.colorSpace = config.colorSpace;
+  }
+  if (config.mode === 'assist') {
+    normalized.mode = 'assist';
+  }
+  
+  // A custom type without a valid profile has nothing to simulate
+  if (type === 'custom') {
+    const profile = CustomProfileSchema.safeParse(config.customProfile);
+    if (profile.success) {
+      normalized.customProfile = profile.data;
+    } else {
+      normalized.type = 'normal';
+    }
+  }
+  
+  const layers = normalizeLayers(config.layers);
+  if (layers.length > 0) {
+    normalized.layers = layers;
+  }
+  
+  const scope = typeof config.scope === 'string' ? config.scope.trim() : '';
+  if (scope && scope.length <= MAX_SCOPE_LENGTH) {
+    normalized.scope = scope;
+  }
+  
+  return normalized;
+}
+
+/**
+ * Validate stack layers, dropping unknown kinds and custom layers without
+ * a valid profile, and capping the stack at MAX_STACK_LAYERS with the primary type
+ */
+function normalizeLayers(layers: unknown): SimulationLayer[] {
+  if (!Array.isArray(layers)) {
+    return [];
+  }
+  
+  const normalized: SimulationLayer[] = [];
+  for (const layer of layers as Partial<ColorLayer & { kind: string }>[]) {
+    if (!layer || typeof layer !== 'object') {
+      continue;
+    }
+    
+    const severity = sanitizeSeverity(layer.severity);
+    if (isLowVisionKind(layer.kind)) {
+      normalized.push({ kind: layer.kind, severity });
+      continue;
+    }
+    
+    if (layer.kind !== 'color' || !isValidType(layer.type)) {
+      continue;
+    }
+    const profile = layer.type === 'custom' ? CustomProfileSchema.safeParse(layer.customProfile) : null;
+    if (profile && !profile.success) {
+      continue;
+    }
+    
+    const color: ColorLayer = { kind: 'color', type: layer.type, severity };
+    if (isValidAlgorithm(layer.algorithm)) {
+      color.algorithm = layer.algorithm;
+    }
+    if (profile?.success) {
+      color.customProfile = profile.data;
+    }
+    normalized.push(color);
+  }
   
-  return { type, severity };
+  return normalized.slice(0, MAX_STACK_LAYERS - 1);
 }
 
@@ -0,0 +1,222 @@
+/**
+ * WCAG contrast
+ *
+ * WCAG 2.x relative luminance and contrast ratio, and the checks of
+ * success criteria 1.4.3 (AA) and 1.4.6 (AAA) for the text the content
+ * script samples from a page, in normal vision and under each simulation.
+ * Links in text blocks are checked against the text around them, for
+ * failure F73. Pure functions, safe to use from the popup and DevTools
+ * panel.
+ */
+
+import type { BuiltInColorBlindnessType, FilterConfig, SimulationOptions } from './colorblind-filters';
+import { getAllFilterTypes, getDefaultSeverity, simulateColor } from './colorblind-filters';
+import type { RGBAColor } from './color-utils';
+import { parseColor } from './color-utils';
+import { srgbToLinear } from './lms-simulation';
+
+export type WcagLevel = 'AA' | 'AAA';
+
+/**
+ * Text with one combination of colors and font, as painted on the page
+ */
+export interface TextSample {
+  foreground: string; // opaque hex, translucency resolved
+  background: string; // opaque hex
+  fontSize: number; // px
+  fontWeight: number;
+  text: string; // the first element's text, shortened
+  count: number; // elements painting this combination
+  selectors: string[]; // a few of those elements
+}
+
+export interface PageText {
+  samples: TextSample[]; // most used first
+  elementCount: number; // elements inspected
+  isTruncated: boolean; // the page has elements that were not inspected
+}
+
+/**
+ * Links in a text block with one combination of colors, set apart from
+ * the text around them by color alone
+ */
+export interface LinkSample {
+  foreground: string; // opaque hex, the link's text
+  text: string; // opaque hex, the text around the link
+  background: string; // opaque hex
+  label: string; // the first link's text, shortened
+  count: number; // links painting this combination
+  selectors: string[]; // the links, up to a limit, for highlighting
+}
+
+export interface PageLinks {
+  samples: LinkSample[]; // most used first
+  elementCount: number; // elements inspected
+  isTruncated: boolean; // the page has elements that were not inspected
+}
+
+export interface ContrastFailure {
+  sample: TextSample;
+  ratio: number;
+  required: number;
+  simulated: { foreground: string; background: string };
+}
+
+export interface TypeContrastFailures {
+  type: BuiltInColorBlindnessType; // 'normal' for normal vision
+  failures: ContrastFailure[]; // lowest ratio first
+}
+
+export interface LinkFailure {
+  sample: LinkSample;
+  ratio: number; // between the link and the text around it
+  simulated: { foreground: string; text: string; background: string };
+}
+
+export interface TypeLinkFailures {
+  type: BuiltInColorBlindnessType; // 'normal' for normal vision
+  failures: LinkFailure[]; // lowest ratio first
+}
+
+/**
+ * Minimum contrast ratios per level, for normal and large text
+ */
+export const CONTRAST_REQUIREMENTS: Record<WcagLevel, { normal: number; large: number }> = {
+  AA: { normal: 4.5, large: 3 },
+  AAA: { normal: 7, large: 4.5 }
+};
+
+/**
+ * Minimum contrast between a link and the text around it when color is
+ * its only cue (technique G183)
+ */
+export const LINK_CONTRAST_MINIMUM = 3;
+
+// Large text is at least 18pt, or 14pt when bold (1pt = 4/3 px)
+const LARGE_TEXT_SIZE = 24;
+const LARGE_BOLD_TEXT_SIZE = 14 * 4 / 3;
+const BOLD_WEIGHT = 700;
+
+/**
+ * Get the WCAG relative luminance of a color, ignoring alpha
+ * @returns Luminance from 0 (black) to 1 (white)
+ */
+export function getRelativeLuminance(color: RGBAColor): number {
+  const [r, g, b] = [color.r, color.g, color.b].map(channel => srgbToLinear(channel / 255));
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * Get the WCAG contrast ratio of two opaque colors
+ * @returns Ratio from 1 to 21, in either order
+ */
+export function getContrastRatio(a: RGBAColor, b: RGBAColor): number {
+  const [lighter, darker] = [getRelativeLuminance(a), getRelativeLuminance(b)].sort((x, y) => y - x);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * Check if text counts as large text for WCAG
+ * @param fontSize - Computed font size in px
+ * @param fontWeight - Computed numeric font weight
+ */
+export function isLargeText(fontSize: number, fontWeight: number): boolean {
+  return fontSize >= LARGE_TEXT_SIZE || (fontSize >= LARGE_BOLD_TEXT_SIZE && fontWeight >= BOLD_WEIGHT);
+}
+
+/**
+ * Get the contrast ratio text needs to pass a level
+ */
+export function getRequiredContrast(level: WcagLevel, isLarge: boolean): number {
+  return CONTRAST_REQUIREMENTS[level][isLarge ? 'large' : 'normal'];
+}
+
+/**
+ * Find the text samples that fail a level under a filter config. Ratios are
+ * not rounded, so 4.49:1 fails AA.
+ * @returns Failures, lowest ratio first
+ */
+export function findContrastFailures(
+  samples: TextSample[],
+  level: WcagLevel,
+  config: FilterConfig
+): ContrastFailure[] {
+  const failures: ContrastFailure[] = [];
+
+  for (const sample of samples) {
+    const simulated = {
+      foreground: simulateColor(sample.foreground, config),
+      background: simulateColor(sample.background, config)
+    };
+    const foreground = parseColor(simulated.foreground);
+    const background = parseColor(simulated.background);
+    if (!foreground || !background) {
+      continue;
+    }
+
+    const ratio = getContrastRatio(foreground, background);
+    const required = getRequiredContrast(level, isLargeText(sample.fontSize, sample.fontWeight));
+    if (ratio < required) {
+      failures.push({ sample, ratio, required, simulated });
+    }
+  }
+
+  return failures.sort((a, b) => a.ratio - b.ratio);
+}
+
+/**
+ * Find the failing text samples in normal vision and for every built-in
+ * type, each at its default severity
+ * @param options - Algorithm and color space to simulate with
+ */
+export function findContrastFailuresByType(
+  samples: TextSample[],
+  level: WcagLevel,
+  options: SimulationOptions = {}
+): TypeContrastFailures[] {
+  return getAllFilterTypes().map(type => ({
+    type,
+    failures: findContrastFailures(samples, level, { type, severity: getDefaultSeverity(type), ...options })
+  }));
+}
+
+/**
+ * Find the links whose contrast with the text around them is below 3:1
+ * under a filter config. Ratios are not rounded, so 2.99:1 fails.
+ * @returns Failures, lowest ratio first
+ */
+export function findLinkFailures(samples: LinkSample[], config: FilterConfig): LinkFailure[] {
+  const failures: LinkFailure[] = [];
+
+  for (const sample of samples) {
+    const simulated = {
+      foreground: simulateColor(sample.foreground, config),
+      text: simulateColor(sample.text, config),
+      background: simulateColor(sample.background, config)
+    };
+    const foreground = parseColor(simulated.foreground);
+    const text = parseColor(simulated.text);
+    if (!foreground || !text) {
+      continue;
+    }
+
+    const ratio = getContrastRatio(foreground, text);
+    if (ratio < LINK_CONTRAST_MINIMUM) {
+      failures.push({ sample, ratio, simulated });
+    }
+  }
+
+  return failures.sort((a, b) => a.ratio - b.ratio);
+}
+
+/**
+ * Find the failing links in normal vision and for every built-in type,
+ * each at its default severity
+ * @param options - Algorithm and color space to simulate with
+ */
+export function findLinkFailuresByType(samples: LinkSample[], options: SimulationOptions = {}): TypeLinkFailures[] {
+  return getAllFilterTypes().map(type => ({
+    type,
+    failures: findLinkFailures(samples, { type, severity: getDefaultSeverity(type), ...options })
+  }));
+}
@@ -47,6 +47,7 @@ export const ErrorCodes = {
   // Validation errors
   INVALID_FILTER_TYPE: 'INVALID_FILTER_TYPE',
   INVALID_SEVERITY: 'INVALID_SEVERITY',
+  INVALID_COLOR: 'INVALID_COLOR',
   
   // Unknown
   UNKNOWN_ERROR: 'UNKNOWN_ERROR'
@@ -73,6 +74,7 @@ export const UserMessages: Record<ErrorCode, string> = {
   [ErrorCodes.EXTENSION_PAGE]: 'This extension cannot run on extension pages.',
   [ErrorCodes.INVALID_FILTER_TYPE]: 'Invalid filter type selected.',
   [ErrorCodes.INVALID_SEVERITY]: 'Invalid severity value.',
+  [ErrorCodes.INVALID_COLOR]: 'Invalid color value. Use hex, rgb() or hsl().',
   [ErrorCodes.UNKNOWN_ERROR]: 'An unexpected error occurred. Please try again.'
 };
 
@@ -89,6 +91,45 @@ export function createError(
   return new ExtensionError(message, code, userMessage, recoverable);
 }
 
+/**
+ * Failed response to a runtime message. Errors do not survive message
+ * passing, so the code travels instead.
+ */
+export interface ErrorResponse {
+  success: false;
+  error: string;
+  code?: ErrorCode;
+}
+
+function isErrorCode(code: unknown): code is ErrorCode {
+  return Object.values(ErrorCodes).includes(code as ErrorCode);
+}
+
+/**
+ * Turn an error into a message response
+ */
+export function toErrorResponse(error: unknown): ErrorResponse {
+  if (error instanceof ExtensionError && isErrorCode(error.code)) {
+    return { success: false, error: error.message, code: error.code };
+  }
+  return { success: false, error: String(error) };
+}
+
+/**
+ * Check if a message response reports an error with a known code
+ */
+export function isErrorResponse(response: unknown): response is ErrorResponse & { code: ErrorCode } {
+  const candidate = response as Partial<ErrorResponse> | null | undefined;
+  return candidate?.success === false && isErrorCode(candidate.code);
+}
+
+/**
+ * Rebuild the error a message response reports
+ */
+export function fromErrorResponse(response: ErrorResponse & { code: ErrorCode }): ExtensionError {
+  return createError(response.code, response.error);
+}
+
 /**
  * Check if a URL is a restricted page
  */
@@ -0,0 +1,273 @@
+/**
+ * LMS-space Color Vision Deficiency Simulation
+ *
+ * Implements the dichromat model of Brettel, Viénot and Mollon (1997).
+ * Colors are linearized, converted to LMS cone space and projected along
+ * the missing cone axis onto one of two half-planes anchored on the
+ * neutral axis and a pair of monochromatic stimuli, then converted back.
+ *
+ * The projection matrices are derived at load time from the Smith & Pokorny
+ * cone fundamentals and CIE 1931 spectral chromaticities, so they match the
+ * values published by reference tools such as libDaltonLens.
+ */
+
+/** Three-component color vector (RGB or LMS), channels in 0-1 */
+export type Vec3 = [number, number, number];
+
+/** 3x3 matrix in row-major order */
+export type Mat3 = [
+  number, number, number,
+  number, number, number,
+  number, number, number
+];
+
+/** Cone class missing in a dichromat */
+export type Dichromacy = 'protan' | 'deutan' | 'tritan';
+
+/**
+ * Precomputed Brettel parameters for one dichromacy, expressed in linear RGB.
+ * `planeA` is used when `dot(rgb, separation) >= 0`, `planeB` otherwise.
+ */
+export interface BrettelParams {
+  planeA: Mat3;
+  planeB: Mat3;
+  separation: Vec3;
+}
+
+// Linear sRGB (D65) to CIE XYZ
+export const XYZ_FROM_LINEAR_RGB: Mat3 = [
+  0.4124, 0.3576, 0.1805,
+  0.2126, 0.7152, 0.0722,
+  0.0193, 0.1192, 0.9505
+];
+
+// CIE XYZ to LMS, Smith & Pokorny (1975) cone fundamentals
+const LMS_FROM_XYZ: Mat3 = [
+  0.15514, 0.54312, -0.03286,
+  -0.15514, 0.45684, 0.03286,
+  0.00000, 0.00000, 0.00801
+];
+
+// CIE 1931 chromaticities (x, y) of the spectral anchor stimuli
+const SPECTRAL_CHROMATICITY: Record<number, [number, number]> = {
+  475: [0.1096, 0.0868],
+  485: [0.0687, 0.2007],
+  575: [0.4788, 0.5202],
+  660: [0.7300, 0.2700]
+};
+
+// Missing cone axis and anchor wavelengths for each dichromacy
+const DICHROMAT_ANCHORS: Record<Dichromacy, { axis: 0 | 1 | 2; anchors: [number, number] }> = {
+  protan: { axis: 0, anchors: [475, 575] },
+  deutan: { axis: 1, anchors: [475, 575] },
+  tritan: { axis: 2, anchors: [485, 660] }
+};
+
+/**
+ * Multiply two 3x3 matrices
+ */
+export function multiplyMat3(a: Mat3, b: Mat3): Mat3 {
+  const out = new Array<number>(9);
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      out[row * 3 + col] =
+        a[row * 3] * b[col] +
+        a[row * 3 + 1] * b[3 + col] +
+        a[row * 3 + 2] * b[6 + col];
+    }
+  }
+  return out as Mat3;
+}
+
+function invertMat3(m: Mat3): Mat3 {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const c00 = e * i - f * h;
+  const c01 = -(d * i - f * g);
+  const c02 = d * h - e * g;
+  const det = a * c00 + b * c01 + c * c02;
+
+  return [
+    c00 / det, -(b * i - c * h) / det, (b * f - c * e) / det,
+    c01 / det, (a * i - c * g) / det, -(a * f - c * d) / det,
+    c02 / det, -(a * h - b * g) / det, (a * e - b * d) / det
+  ];
+}
+
+/**
+ * Multiply a 3x3 matrix by a column vector
+ */
+export function transformVec3(m: Mat3, v: Vec3): Vec3 {
+  return [
+    m[0] * v[0] + m[1] * v[1] + m[2] * v[2],
+    m[3] * v[0] + m[4] * v[1] + m[5] * v[2],
+    m[6] * v[0] + m[7] * v[1] + m[8] * v[2]
+  ];
+}
+
+function cross(u: Vec3, v: Vec3): Vec3 {
+  return [
+    u[1] * v[2] - u[2] * v[1],
+    u[2] * v[0] - u[0] * v[2],
+    u[0] * v[1] - u[1] * v[0]
+  ];
+}
+
+function dot(u: Vec3, v: Vec3): number {
+  return u[0] * v[0] + u[1] * v[1] + u[2] * v[2];
+}
+
+/** Linear RGB to LMS conversion matrix */
+export const LMS_FROM_LINEAR_RGB: Mat3 = multiplyMat3(LMS_FROM_XYZ, XYZ_FROM_LINEAR_RGB);
+
+/** LMS to linear RGB conversion matrix */
+export const LINEAR_RGB_FROM_LMS: Mat3 = invertMat3(LMS_FROM_LINEAR_RGB);
+
+/**
+ * Convert a gamma-encoded sRGB channel (0-1) to linear light
+ */
+export function srgbToLinear(value: number): number {
+  return value <= 0.04045
+    ? value / 12.92
+    : Math.pow((value + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * Convert a linear light channel (0-1) to gamma-encoded sRGB
+ */
+export function linearToSrgb(value: number): number {
+  return value <= 0.0031308
+    ? value * 12.92
+    : 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
+}
+
+/**
+ * Convert a 3x3 transform in LMS cone space into the equivalent
+ * transform in linear RGB
+ */
+export function lmsTransformToLinearRgb(lmsTransform: Mat3): Mat3 {
+  return multiplyMat3(multiplyMat3(LINEAR_RGB_FROM_LMS, lmsTransform), LMS_FROM_LINEAR_RGB);
+}
+
+/**
+ * Convert a linear RGB color to LMS cone responses
+ */
+export function linearRgbToLms(rgb: Vec3): Vec3 {
+  return transformVec3(LMS_FROM_LINEAR_RGB, rgb);
+}
+
+/**
+ * Convert LMS cone responses to a linear RGB color
+ */
+export function lmsToLinearRgb(lms: Vec3): Vec3 {
+  return transformVec3(LINEAR_RGB_FROM_LMS, lms);
+}
+
+function spectralLms(wavelength: number): Vec3 {
+  const [x, y] = SPECTRAL_CHROMATICITY[wavelength];
+  return transformVec3(LMS_FROM_XYZ, [x / y, 1, (1 - x - y) / y]);
+}
+
+/**
+ * Build the LMS projection onto the plane spanned by white and an anchor.
+ * The missing cone response is replaced by the value that puts the color
+ * on that plane; the other two responses are kept.
+ */
+function projectionOntoPlane(axis: 0 | 1 | 2, white: Vec3, anchor: Vec3): Mat3 {
+  const normal = cross(white, anchor);
+  const projection: Mat3 = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+  for (let col = 0; col < 3; col++) {
+    projection[axis * 3 + col] = col === axis ? 0 : -normal[col] / normal[axis];
+  }
+
+  return projection;
+}
+
+function computeBrettelParams(deficiency: Dichromacy): BrettelParams {
+  const { axis, anchors } = DICHROMAT_ANCHORS[deficiency];
+  const white = linearRgbToLms([1, 1, 1]);
+  const anchorA = spectralLms(anchors[0]);
+  const anchorB = spectralLms(anchors[1]);
+
+  // The two wings meet along the neutral axis; the plane through white and
+  // the missing cone axis decides which wing a color is projected onto.
+  const missingAxis: Vec3 = [0, 0, 0];
+  missingAxis[axis] = 1;
+  let separationLms = cross(white, missingAxis);
+  if (dot(separationLms, anchorA) < 0) {
+    separationLms = [-separationLms[0], -separationLms[1], -separationLms[2]];
+  }
+
+  // Express the separation normal in linear RGB so callers can test RGB directly
+  const separation: Vec3 = [0, 1, 2].map(col =>
+    separationLms[0] * LMS_FROM_LINEAR_RGB[col] +
+    separationLms[1] * LMS_FROM_LINEAR_RGB[3 + col] +
+    separationLms[2] * LMS_FROM_LINEAR_RGB[6 + col]
+  ) as Vec3;
+
+  return {
+    planeA: lmsTransformToLinearRgb(projectionOntoPlane(axis, white, anchorA)),
+    planeB: lmsTransformToLinearRgb(projectionOntoPlane(axis, white, anchorB)),
+    separation
+  };
+}
+
+const BRETTEL_PARAMS: Record<Dichromacy, BrettelParams> = {
+  protan: computeBrettelParams('protan'),
+  deutan: computeBrettelParams('deutan'),
+  tritan: computeBrettelParams('tritan')
+};
+
+/**
+ * Get the precomputed Brettel parameters for a dichromacy
+ */
+export function getBrettelParams(deficiency: Dichromacy): BrettelParams {
+  return BRETTEL_PARAMS[deficiency];
+}
+
+/**
+ * Simulate a dichromat's perception of a linear RGB color
+ * @param rgb - Linear RGB color, channels 0-1
+ * @param deficiency - Missing cone class
+ * @param severity - Blend between normal (0) and dichromat (1) vision
+ * @returns Simulated linear RGB color (not clamped)
+ */
+export function simulateBrettelLinear(
+  rgb: Vec3,
+  deficiency: Dichromacy,
+  severity: number = 1
+): Vec3 {
+  const params = BRETTEL_PARAMS[deficiency];
+  const plane = dot(rgb, params.separation) >= 0 ? params.planeA : params.planeB;
+  const projected = transformVec3(plane, rgb);
+
+  return [
+    rgb[0] + (projected[0] - rgb[0]) * severity,
+    rgb[1] + (projected[1] - rgb[1]) * severity,
+    rgb[2] + (projected[2] - rgb[2]) * severity
+  ];
+}
+
+/**
+ * Simulate a dichromat's perception of a gamma-encoded sRGB color
+ * @param rgb - sRGB color, channels 0-1
+ * @param deficiency - Missing cone class
+ * @param severity - Blend between normal (0) and dichromat (1) vision
+ * @returns Simulated sRGB color, channels clamped to 0-1
+ * @example
+ * ```typescript
+ * simulateBrettel([1, 0, 0], 'protan') // dark olive
+ * ```
+ */
+export function simulateBrettel(
+  rgb: Vec3,
+  deficiency: Dichromacy,
+  severity: number = 1
+): Vec3 {
+  const linear = rgb.map(srgbToLinear) as Vec3;
+  const simulated = simulateBrettelLinear(linear, deficiency, severity);
+
+  return simulated.map(
+    value => linearToSrgb(Math.max(0, Math.min(1, value)))
+  ) as Vec3;
+}
@@ -0,0 +1,184 @@
+/**
+ * Low-vision Simulations
+ *
+ * Vision impairments that are not color deficiencies: reduced acuity,
+ * reduced contrast sensitivity, cataract yellowing and visual field loss.
+ * Each kind is a layer with its own severity in a simulation stack.
+ *
+ * Blur, contrast loss and cataract become stages of the SVG filter chain.
+ * Field loss (tunnel vision and central scotoma) depends on the viewport
+ * rather than on page content, so it is rendered as a fixed overlay
+ * gradient by the content script.
+ */
+
+/**
+ * Every supported low-vision kind, in display order
+ */
+export const LOW_VISION_KINDS = [
+  'blur',
+  'contrast-loss',
+  'cataract',
+  'tunnel-vision',
+  'central-scotoma'
+] as const;
+
+export type LowVisionKind = typeof LOW_VISION_KINDS[number];
+
+/**
+ * A low-vision layer in a simulation stack
+ */
+export interface LowVisionLayer {
+  kind: LowVisionKind;
+  severity: number; // 0-100
+}
+
+export interface LowVisionInfo {
+  kind: LowVisionKind;
+  name: string;
+  description: string;
+  condition: string;
+}
+
+export const LOW_VISION_INFO: Record<LowVisionKind, LowVisionInfo> = {
+  'blur': {
+    kind: 'blur',
+    name: 'Blurred Vision',
+    description: 'Reduced visual acuity. Small text and fine detail become hard to resolve.',
+    condition: 'Refractive error, diabetic retinopathy'
+  },
+  'contrast-loss': {
+    kind: 'contrast-loss',
+    name: 'Contrast Loss',
+    description: 'Reduced contrast sensitivity. Light grays and pale colors wash out.',
+    condition: 'Aging, glaucoma, optic neuritis'
+  },
+  'cataract': {
+    kind: 'cataract',
+    name: 'Cataract',
+    description: 'A clouded, yellowed lens. Blues darken, everything looks hazy and slightly blurred.',
+    condition: 'Cataract (common over 60)'
+  },
+  'tunnel-vision': {
+    kind: 'tunnel-vision',
+    name: 'Tunnel Vision',
+    description: 'Loss of peripheral vision. Only the center of the screen remains visible.',
+    condition: 'Glaucoma, retinitis pigmentosa'
+  },
+  'central-scotoma': {
+    kind: 'central-scotoma',
+    name: 'Central Scotoma',
+    description: 'A blind spot in the center of vision. Content must be found with peripheral vision.',
+    condition: 'Macular degeneration'
+  }
+};
+
+// Maximum blur radius in CSS pixels at full severity
+const MAX_BLUR_PX = 6;
+const MAX_CATARACT_BLUR_PX = 1.5;
+
+function getFactor(severity: number): number {
+  if (typeof severity !== 'number' || isNaN(severity)) {
+    return 0;
+  }
+  return Math.max(0, Math.min(100, severity)) / 100;
+}
+
+/**
+ * Check if a value is a low-vision kind
+ */
+export function isLowVisionKind(kind: unknown): kind is LowVisionKind {
+  return typeof kind === 'string' && (LOW_VISION_KINDS as readonly string[]).includes(kind);
+}
+
+/**
+ * Check if a kind is rendered as a viewport overlay rather than a filter
+ */
+export function isFieldLossKind(kind: LowVisionKind): boolean {
+  return kind === 'tunnel-vision' || kind === 'central-scotoma';
+}
+
+/**
+ * Get the per-pixel 4x5 color matrix for a layer
+ * @returns The matrix, or null for kinds without a color component
+ */
+export function getLowVisionMatrix(layer: LowVisionLayer): number[] | null {
+  const factor = getFactor(layer.severity);
+  if (factor === 0) {
+    return null;
+  }
+
+  // Cataract: blue absorbed by the yellowed lens, plus haze scattered toward warm white
+  if (layer.kind === 'cataract') {
+    const haze = 0.3 * factor;
+    const keep = 1 - haze;
+    const blue = keep * (1 - 0.5 * factor);
+    return [
+      keep, 0, 0, 0, haze * 0.95,
+      0, keep, 0, 0, haze * 0.9,
+      0, 0, blue, 0, haze * 0.65,
+      0, 0, 0, 1, 0
+    ];
+  }
+
+  // Contrast loss: scale every channel toward mid-gray
+  if (layer.kind === 'contrast-loss') {
+    const slope = 1 - 0.8 * factor;
+    const intercept = (1 - slope) / 2;
+    return [
+      slope, 0, 0, 0, intercept,
+      0, slope, 0, 0, intercept,
+      0, 0, slope, 0, intercept,
+      0, 0, 0, 1, 0
+    ];
+  }
+
+  return null;
+}
+
+/**
+ * Get the Gaussian blur standard deviation for a layer, in CSS pixels
+ */
+export function getLowVisionBlurRadius(layer: LowVisionLayer): number {
+  const factor = getFactor(layer.severity);
+  if (layer.kind === 'blur') {
+    return factor * MAX_BLUR_PX;
+  }
+  if (layer.kind === 'cataract') {
+    return factor * MAX_CATARACT_BLUR_PX;
+  }
+  return 0;
+}
+
+/**
+ * Get the CSS background for the visual field overlay
+ * @returns Layered radial gradients centered on the viewport, or null when
+ *   no tunnel vision or central scotoma layer is active
+ */
+export function getVisionFieldBackground(layers: LowVisionLayer[]): string | null {
+  const gradients: string[] = [];
+
+  for (const layer of layers) {
+    const factor = getFactor(layer.severity);
+    if (factor === 0) {
+      continue;
+    }
+
+    if (layer.kind === 'central-scotoma') {
+      // Scotoma grows from a small spot to a third of the viewport
+      const radius = 4 + 26 * factor;
+      gradients.push(
+        `radial-gradient(circle at 50% 50%, rgba(20, 20, 20, 0.97) ${radius.toFixed(1)}vmin, ` +
+        `rgba(20, 20, 20, 0) ${(radius * 1.6).toFixed(1)}vmin)`
+      );
+    } else if (layer.kind === 'tunnel-vision') {
+      // Tunnel shrinks from the full screen to a narrow central window
+      const radius = 90 - 78 * factor;
+      gradients.push(
+        `radial-gradient(circle at 50% 50%, rgba(0, 0, 0, 0) ${radius.toFixed(1)}vmin, ` +
+        `rgba(0, 0, 0, 0.98) ${(radius * 1.4).toFixed(1)}vmin)`
+      );
+    }
+  }
+
+  return gradients.length > 0 ? gradients.join(', ') : null;
+}
@@ -0,0 +1,204 @@
+/**
+ * Page color palettes
+ *
+ * The content script collects the colors a page paints and the pairs of
+ * them that meet, such as text on its background or a button on its card.
+ * This module scores every pair with CIEDE2000 in normal vision and under
+ * each simulation, and finds the pairs a simulated color vision can no
+ * longer tell apart. Pure functions, safe to use from the popup and
+ * DevTools panel.
+ */
+
+import type { BuiltInColorBlindnessType, FilterConfig, SimulationOptions } from './colorblind-filters';
+import { getAllFilterTypes, getDefaultSeverity, simulateRgb } from './colorblind-filters';
+import type { RGBAColor } from './color-utils';
+import { formatHex, parseColor } from './color-utils';
+import { getColorDifference } from './color-science';
+
+export type ColorRole = 'text' | 'background' | 'border' | 'outline' | 'fill' | 'stroke';
+
+/** Types a pair is simulated under */
+export type SimulatedType = Exclude<BuiltInColorBlindnessType, 'normal'>;
+
+/**
+ * A color painted on the page
+ */
+export interface PaletteColor {
+  color: string; // hex, with alpha when translucent
+  count: number; // uses, counted once per element and role
+  roles: ColorRole[];
+  selectors: string[]; // a few of the elements using it
+}
+
+/**
+ * Two colors painted against each other, with translucency resolved
+ */
+export interface ColorPair {
+  foreground: string; // opaque hex
+  background: string; // opaque hex
+  count: number;
+  selectors: string[]; // a few of the elements painting the foreground
+}
+
+export interface PagePalette {
+  url: string;
+  colors: PaletteColor[]; // most used first
+  pairs: ColorPair[]; // most used first
+  elementCount: number; // elements inspected
+  isTruncated: boolean; // the page has elements that were not inspected
+}
+
+/**
+ * A pair as seen under one simulation
+ */
+export interface SimulatedPair {
+  foreground: string; // hex
+  background: string; // hex
+  deltaE: number; // ΔE00 between the simulated colors
+}
+
+/**
+ * A pair with its ΔE00 in normal vision and under every simulation
+ */
+export interface ScoredPair {
+  pair: ColorPair;
+  deltaE: number; // ΔE00 between the original colors
+  simulations: Record<SimulatedType, SimulatedPair>;
+}
+
+/**
+ * A pair that is distinct in normal vision but not under a simulation
+ */
+export interface ConfusionPair {
+  pair: ColorPair;
+  deltaE: number;
+  simulated: SimulatedPair;
+}
+
+export interface TypeConfusions {
+  type: SimulatedType;
+  pairs: ConfusionPair[]; // most used first
+}
+
+/**
+ * Exportable summary of a palette analysis
+ */
+export interface PaletteReport {
+  url: string;
+  createdAt: string; // ISO 8601
+  metric: 'CIEDE2000';
+  threshold: number;
+  options: SimulationOptions;
+  elementCount: number;
+  isTruncated: boolean;
+  /** Confusion pairs per type */
+  summary: Record<SimulatedType, number>;
+  colors: PaletteColor[];
+  pairs: (ColorPair & {
+    deltaE: number;
+    simulations: Record<SimulatedType, SimulatedPair & { isConfused: boolean }>;
+  })[];
+}
+
+function simulate(color: RGBAColor, config: FilterConfig): RGBAColor {
+  const [r, g, b] = simulateRgb([color.r / 255, color.g / 255, color.b / 255], config);
+  return { r: r * 255, g: g * 255, b: b * 255, a: 1 };
+}
+
+function getSimulatedTypes(): SimulatedType[] {
+  return getAllFilterTypes().filter((type): type is SimulatedType => type !== 'normal');
+}
+
+/**
+ * Score every pair of a palette in normal vision and under every built-in
+ * type, each at its default severity. Pairs with unparseable colors are
+ * left out.
+ * @param options - Algorithm and color space to simulate with
+ */
+export function scorePalette(palette: PagePalette, options: SimulationOptions = {}): ScoredPair[] {
+  const types = getSimulatedTypes();
+  const scores: ScoredPair[] = [];
+
+  for (const pair of palette.pairs) {
+    const foreground = parseColor(pair.foreground);
+    const background = parseColor(pair.background);
+    if (!foreground || !background) {
+      continue;
+    }
+
+    const simulations = Object.fromEntries(types.map((type) => {
+      const config: FilterConfig = { type, severity: getDefaultSeverity(type), ...options };
+      const simulatedForeground = simulate(foreground, config);
+      const simulatedBackground = simulate(background, config);
+      return [type, {
+        foreground: formatHex(simulatedForeground),
+        background: formatHex(simulatedBackground),
+        deltaE: getColorDifference(simulatedForeground, simulatedBackground)
+      }];
+    })) as Record<SimulatedType, SimulatedPair>;
+
+    scores.push({ pair, deltaE: getColorDifference(foreground, background), simulations });
+  }
+
+  return scores;
+}
+
+/**
+ * Check if a pair is distinct in normal vision but drops below the
+ * threshold under a type. Pairs that are close to begin with are not
+ * confusions.
+ */
+export function isConfusedPair(score: ScoredPair, type: SimulatedType, threshold: number): boolean {
+  return score.deltaE >= threshold && score.simulations[type].deltaE < threshold;
+}
+
+/**
+ * Find the confusion pairs for every built-in type
+ * @param scores - Pairs scored by `scorePalette`
+ * @param threshold - ΔE00 below which two colors count as indistinguishable
+ */
+export function findConfusionPairsByType(scores: ScoredPair[], threshold: number): TypeConfusions[] {
+  return getSimulatedTypes().map(type => ({
+    type,
+    pairs: scores
+      .filter(score => isConfusedPair(score, type, threshold))
+      .map(score => ({ pair: score.pair, deltaE: score.deltaE, simulated: score.simulations[type] }))
+      .sort((a, b) => b.pair.count - a.pair.count)
+  }));
+}
+
+/**
+ * Build an exportable report of a palette analysis
+ * @param scores - Pairs scored by `scorePalette` with the same options
+ */
+export function createPaletteReport(
+  palette: PagePalette,
+  scores: ScoredPair[],
+  threshold: number,
+  options: SimulationOptions = {}
+): PaletteReport {
+  const types = getSimulatedTypes();
+
+  return {
+    url: palette.url,
+    createdAt: new Date().toISOString(),
+    metric: 'CIEDE2000',
+    threshold,
+    options,
+    elementCount: palette.elementCount,
+    isTruncated: palette.isTruncated,
+    summary: Object.fromEntries(types.map(type => [
+      type,
+      scores.filter(score => isConfusedPair(score, type, threshold)).length
+    ])) as Record<SimulatedType, number>,
+    colors: palette.colors,
+    pairs: scores.map(score => ({
+      ...score.pair,
+      deltaE: score.deltaE,
+      simulations: Object.fromEntries(types.map(type => [
+        type,
+        { ...score.simulations[type], isConfused: isConfusedPair(score, type, threshold) }
+      ])) as PaletteReport['pairs'][number]['simulations']
+    }))
+  };
+}
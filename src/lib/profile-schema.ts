@@ -0,0 +1,30 @@
+/**
+ * Custom profile schema
+ *
+ * Kept apart from validation.ts, which depends on colorblind-filters.ts,
+ * so the filter code can check profiles from messages without an import
+ * cycle. validation.ts re-exports it.
+ */
+
+import { z } from 'zod';
+
+const CustomProfileBaseSchema = z.object({
+  id: z.string().min(1).max(64),
+  name: z.string().trim().min(1, 'Name is required').max(50),
+  description: z.string().max(500).default('')
+});
+
+/**
+ * Custom deficiency profile schema.
+ * Matrix profiles hold a 4x5 feColorMatrix, LMS profiles a 3x3 cone-space transform.
+ */
+export const CustomProfileSchema = z.discriminatedUnion('kind', [
+  CustomProfileBaseSchema.extend({
+    kind: z.literal('matrix'),
+    values: z.array(z.number().finite()).length(20)
+  }),
+  CustomProfileBaseSchema.extend({
+    kind: z.literal('lms'),
+    values: z.array(z.number().finite()).length(9)
+  })
+]);
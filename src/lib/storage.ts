@@ -2,12 +2,51 @@
  * Storage utilities for Color Blindness Simulator
  */
 
-import type { ColorBlindnessType, FilterConfig } from './colorblind-filters';
+import type {
+  BuiltInColorBlindnessType,
+  ColorBlindnessType,
+  CustomProfile,
+  FilterConfig,
+  FilterMode,
+  SimulationLayer
+} from './colorblind-filters';
 import { createLogger } from './logger';
-import { validateStorageData, validateSeverity, isValidColorBlindnessType } from './validation';
+import { normalizeConfig } from './colorblind-filters';
+import {
+  validateStorageData,
+  validateSeverity,
+  validateCustomProfile,
+  validateSiteExclusions,
+  isValidColorBlindnessType,
+  MAX_CUSTOM_PROFILES
+} from './validation';
 
 const logger = createLogger('Storage');
 
+/**
+ * How the content script attaches the filter to the page.
+ * - `root`: one filter on `<html>`, fastest and covers everything
+ * - `elements`: filter each top-level block separately so fixed and sticky
+ *   elements keep their layout
+ * - `auto`: `elements` when the page has fixed or sticky elements, else `root`
+ */
+export type RenderingBackend = 'auto' | 'root' | 'elements';
+
+/**
+ * What the magnifier lens shows.
+ * - `simulated`: the simulation inside the lens, the page stays normal
+ * - `inverse`: normal vision inside the lens, the page is simulated
+ */
+export type LensMode = 'simulated' | 'inverse';
+
+export type LensShape = 'circle' | 'rectangle';
+
+// Top-left corner of the floating toolbar in the viewport, in px
+export interface ToolbarPosition {
+  x: number;
+  y: number;
+}
+
 // Preferences interface
 export interface ColorBlindPreferences {
   defaultFilter: ColorBlindnessType;
@@ -16,12 +55,24 @@ export interface ColorBlindPreferences {
   showInfoToasts: boolean;
   darkMode: boolean;
   rememberPerSite: boolean;
+  renderingBackend: RenderingBackend;
+  lensMode: LensMode;
+  lensShape: LensShape;
+  lensSize: number; // px, width of the lens
+  lensZoom: number;
+  showToolbar: boolean;
+  toolbarPosition: ToolbarPosition | null; // null for the default corner
+  cycleInterval: number; // seconds per type in the demo cycle
+  cycleTypes: BuiltInColorBlindnessType[]; // types the demo cycle shows, empty for all
+  deltaEThreshold: number; // ΔE00 below which palette pairs count as indistinguishable
 }
 
 // Filter history entry
 export interface FilterHistoryEntry {
   type: ColorBlindnessType;
   severity: number;
+  mode?: FilterMode;
+  layers?: SimulationLayer[];
   timestamp: number;
   url?: string;
 }
@@ -31,6 +82,11 @@ export interface SiteFilterSettings {
   [hostname: string]: FilterConfig;
 }
 
+// Per-site exclusion selectors; matching elements are never simulated
+export interface SiteExclusions {
+  [hostname: string]: string[];
+}
+
 // Active filter state per tab
 export interface TabFilterState {
   isEnabled: boolean;
@@ -42,8 +98,10 @@ export interface StorageData {
   preferences: ColorBlindPreferences;
   filterHistory: FilterHistoryEntry[];
   siteSettings: SiteFilterSettings;
+  siteExclusions: SiteExclusions;
   currentFilter: FilterConfig;
   isEnabled: boolean;
+  customProfiles: CustomProfile[];
 }
 
 // Default preferences
@@ -53,7 +111,17 @@ const DEFAULT_PREFERENCES: ColorBlindPreferences = {
   autoApplyOnLoad: false,
   showInfoToasts: true,
   darkMode: false,
-  rememberPerSite: false
+  rememberPerSite: false,
+  renderingBackend: 'auto',
+  lensMode: 'simulated',
+  lensShape: 'circle',
+  lensSize: 200,
+  lensZoom: 2,
+  showToolbar: false,
+  toolbarPosition: null,
+  cycleInterval: 5,
+  cycleTypes: [],
+  deltaEThreshold: 10
 };
 
 // Default filter config
@@ -67,8 +135,10 @@ const STORAGE_KEYS = {
   PREFERENCES: 'colorblind_preferences',
   HISTORY: 'colorblind_history',
   SITE_SETTINGS: 'colorblind_site_settings',
+  SITE_EXCLUSIONS: 'colorblind_site_exclusions',
   CURRENT_FILTER: 'colorblind_current_filter',
-  IS_ENABLED: 'colorblind_is_enabled'
+  IS_ENABLED: 'colorblind_is_enabled',
+  CUSTOM_PROFILES: 'colorblind_custom_profiles'
 } as const;
 
 const MAX_HISTORY_ITEMS = 50;
@@ -102,6 +172,24 @@ export async function updatePreferences(
   }
 }
 
+/**
+ * Listen for preference changes made from any extension context
+ * @returns A function that removes the listener
+ */
+export function onPreferencesChanged(
+  callback: (preferences: ColorBlindPreferences) => void
+): () => void {
+  const listener = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+    const change = changes[STORAGE_KEYS.PREFERENCES];
+    if (areaName === 'local' && change) {
+      callback({ ...DEFAULT_PREFERENCES, ...change.newValue });
+    }
+  };
+  
+  chrome.storage.onChanged.addListener(listener);
+  return () => chrome.storage.onChanged.removeListener(listener);
+}
+
 /**
  * Get current filter configuration
  */
@@ -115,6 +203,25 @@ export async function getCurrentFilter(): Promise<FilterConfig> {
   }
 }
 
+/**
+ * Listen for filter changes made from any extension context, e.g. a scope
+ * picked in the page
+ * @returns A function that removes the listener
+ */
+export function onCurrentFilterChanged(
+  callback: (config: FilterConfig) => void
+): () => void {
+  const listener = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+    const change = changes[STORAGE_KEYS.CURRENT_FILTER];
+    if (areaName === 'local' && change?.newValue) {
+      callback(change.newValue as FilterConfig);
+    }
+  };
+  
+  chrome.storage.onChanged.addListener(listener);
+  return () => chrome.storage.onChanged.removeListener(listener);
+}
+
 /**
  * Set current filter configuration
  */
@@ -168,24 +275,31 @@ export async function getFilterHistory(): Promise<FilterHistoryEntry[]> {
 /**
  * Add entry to filter history
  */
-export async function addToHistory(
-  type: ColorBlindnessType,
-  severity: number,
-  url?: string
-): Promise<void> {
+export async function addToHistory(config: FilterConfig, url?: string): Promise<void> {
   try {
     const history = await getFilterHistory();
     
     const entry: FilterHistoryEntry = {
-      type,
-      severity,
+      type: config.type,
+      severity: config.severity,
       timestamp: Date.now(),
       url
     };
+    if (config.mode === 'assist') {
+      entry.mode = 'assist';
+    } else if (config.layers?.length) {
+      entry.layers = config.layers;
+    }
     
-    // Remove duplicate if exists
+    // Remove duplicate if exists (same primary type, mode and stack)
+    const stackKey = JSON.stringify(entry.layers ?? []);
     const filtered = history.filter(
-      h => !(h.type === type && h.severity === severity)
+      h => !(
+        h.type === entry.type &&
+        h.severity === entry.severity &&
+        h.mode === entry.mode &&
+        JSON.stringify(h.layers ?? []) === stackKey
+      )
     );
     
     // Add to beginning
@@ -257,6 +371,67 @@ export async function getSiteFilter(
   }
 }
 
+/**
+ * Get exclusion selectors for every site
+ */
+export async function getAllSiteExclusions(): Promise<SiteExclusions> {
+  try {
+    const result = await chrome.storage.local.get(STORAGE_KEYS.SITE_EXCLUSIONS);
+    return result[STORAGE_KEYS.SITE_EXCLUSIONS] || {};
+  } catch (error) {
+    logger.error('Error getting site exclusions:', error);
+    return {};
+  }
+}
+
+/**
+ * Get exclusion selectors for a specific site
+ */
+export async function getSiteExclusions(hostname: string): Promise<string[]> {
+  const exclusions = await getAllSiteExclusions();
+  return exclusions[hostname] ?? [];
+}
+
+/**
+ * Set exclusion selectors for a specific site. An empty list removes the entry.
+ * @throws Error if a selector is empty or too long
+ */
+export async function setSiteExclusions(hostname: string, selectors: string[]): Promise<void> {
+  try {
+    const validated = validateSiteExclusions({ [hostname]: selectors });
+    const exclusions = await getAllSiteExclusions();
+    if (selectors.length > 0) {
+      exclusions[hostname] = validated[hostname];
+    } else {
+      delete exclusions[hostname];
+    }
+    await chrome.storage.local.set({ [STORAGE_KEYS.SITE_EXCLUSIONS]: exclusions });
+  } catch (error) {
+    logger.error('Error setting site exclusions:', error);
+    throw error;
+  }
+}
+
+/**
+ * Listen for exclusion changes of one site
+ * @returns A function that removes the listener
+ */
+export function onSiteExclusionsChanged(
+  hostname: string,
+  callback: (selectors: string[]) => void
+): () => void {
+  const listener = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+    const change = changes[STORAGE_KEYS.SITE_EXCLUSIONS];
+    if (areaName === 'local' && change) {
+      const exclusions = (change.newValue ?? {}) as SiteExclusions;
+      callback(exclusions[hostname] ?? []);
+    }
+  };
+  
+  chrome.storage.onChanged.addListener(listener);
+  return () => chrome.storage.onChanged.removeListener(listener);
+}
+
 /**
  * Remove filter for a specific site
  */
@@ -271,26 +446,84 @@ export async function removeSiteFilter(hostname: string): Promise<void> {
   }
 }
 
+/**
+ * Get user-defined deficiency profiles
+ */
+export async function getCustomProfiles(): Promise<CustomProfile[]> {
+  try {
+    const result = await chrome.storage.local.get(STORAGE_KEYS.CUSTOM_PROFILES);
+    return result[STORAGE_KEYS.CUSTOM_PROFILES] || [];
+  } catch (error) {
+    logger.error('Error getting custom profiles:', error);
+    return [];
+  }
+}
+
+/**
+ * Create or update a custom profile (matched by id)
+ * @throws Error if the profile is invalid or the profile limit is reached
+ */
+export async function saveCustomProfile(profile: CustomProfile): Promise<void> {
+  try {
+    const validated = validateCustomProfile(profile);
+    const profiles = await getCustomProfiles();
+    const index = profiles.findIndex(p => p.id === validated.id);
+    
+    if (index >= 0) {
+      profiles[index] = validated;
+    } else {
+      if (profiles.length >= MAX_CUSTOM_PROFILES) {
+        throw new Error(`Cannot store more than ${MAX_CUSTOM_PROFILES} custom profiles`);
+      }
+      profiles.push(validated);
+    }
+    
+    await chrome.storage.local.set({ [STORAGE_KEYS.CUSTOM_PROFILES]: profiles });
+  } catch (error) {
+    logger.error('Error saving custom profile:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a custom profile
+ */
+export async function deleteCustomProfile(id: string): Promise<void> {
+  try {
+    const profiles = await getCustomProfiles();
+    await chrome.storage.local.set({
+      [STORAGE_KEYS.CUSTOM_PROFILES]: profiles.filter(p => p.id !== id)
+    });
+  } catch (error) {
+    logger.error('Error deleting custom profile:', error);
+    throw error;
+  }
+}
+
 /**
  * Export all data
  */
 export async function exportData(): Promise<StorageData> {
   try {
-    const [preferences, filterHistory, siteSettings, currentFilter, isEnabled] =
+    const [preferences, filterHistory, siteSettings, siteExclusions, currentFilter, isEnabled, customProfiles] =
       await Promise.all([
         getPreferences(),
         getFilterHistory(),
         getSiteSettings(),
+        getAllSiteExclusions(),
         getCurrentFilter(),
-        getIsEnabled()
+        getIsEnabled(),
+        getCustomProfiles()
       ]);
     
     return {
       preferences,
       filterHistory,
       siteSettings,
+      siteExclusions,
       currentFilter,
-      isEnabled
+      isEnabled,
+      customProfiles
     };
   } catch (error) {
     logger.error('Error exporting data:', error);
@@ -321,7 +554,17 @@ export async function importData(rawData: unknown): Promise<void> {
         autoApplyOnLoad: Boolean(data.preferences.autoApplyOnLoad),
         showInfoToasts: data.preferences.showInfoToasts !== false,
         darkMode: Boolean(data.preferences.darkMode),
-        rememberPerSite: Boolean(data.preferences.rememberPerSite)
+        rememberPerSite: Boolean(data.preferences.rememberPerSite),
+        renderingBackend: data.preferences.renderingBackend ?? DEFAULT_PREFERENCES.renderingBackend,
+        lensMode: data.preferences.lensMode ?? DEFAULT_PREFERENCES.lensMode,
+        lensShape: data.preferences.lensShape ?? DEFAULT_PREFERENCES.lensShape,
+        lensSize: data.preferences.lensSize ?? DEFAULT_PREFERENCES.lensSize,
+        lensZoom: data.preferences.lensZoom ?? DEFAULT_PREFERENCES.lensZoom,
+        showToolbar: Boolean(data.preferences.showToolbar),
+        toolbarPosition: data.preferences.toolbarPosition ?? DEFAULT_PREFERENCES.toolbarPosition,
+        cycleInterval: data.preferences.cycleInterval ?? DEFAULT_PREFERENCES.cycleInterval,
+        cycleTypes: data.preferences.cycleTypes ?? DEFAULT_PREFERENCES.cycleTypes,
+        deltaEThreshold: data.preferences.deltaEThreshold ?? DEFAULT_PREFERENCES.deltaEThreshold
       };
       updates[STORAGE_KEYS.PREFERENCES] = validatedPrefs;
     }
@@ -347,26 +590,28 @@ export async function importData(rawData: unknown): Promise<void> {
           hostname.length > 0 &&
           isValidColorBlindnessType(config.type)
         ) {
-          validSiteSettings[hostname] = {
-            type: config.type,
-            severity: validateSeverity(config.severity)
-          };
+          validSiteSettings[hostname] = normalizeConfig(config);
         }
       }
       updates[STORAGE_KEYS.SITE_SETTINGS] = validSiteSettings;
     }
     
+    if (data.siteExclusions) {
+      updates[STORAGE_KEYS.SITE_EXCLUSIONS] = data.siteExclusions;
+    }
+    
     if (data.currentFilter && isValidColorBlindnessType(data.currentFilter.type)) {
-      updates[STORAGE_KEYS.CURRENT_FILTER] = {
-        type: data.currentFilter.type,
-        severity: validateSeverity(data.currentFilter.severity)
-      };
+      updates[STORAGE_KEYS.CURRENT_FILTER] = normalizeConfig(data.currentFilter);
     }
     
     if (typeof data.isEnabled === 'boolean') {
       updates[STORAGE_KEYS.IS_ENABLED] = data.isEnabled;
     }
     
+    if (data.customProfiles) {
+      updates[STORAGE_KEYS.CUSTOM_PROFILES] = data.customProfiles;
+    }
+    
     await chrome.storage.local.set(updates);
   } catch (error) {
     logger.error('Error importing data:', error);
@@ -383,8 +628,10 @@ export async function clearAllData(): Promise<void> {
       STORAGE_KEYS.PREFERENCES,
       STORAGE_KEYS.HISTORY,
       STORAGE_KEYS.SITE_SETTINGS,
+      STORAGE_KEYS.SITE_EXCLUSIONS,
       STORAGE_KEYS.CURRENT_FILTER,
-      STORAGE_KEYS.IS_ENABLED
+      STORAGE_KEYS.IS_ENABLED,
+      STORAGE_KEYS.CUSTOM_PROFILES
     ]);
   } catch (error) {
     logger.error('Error clearing all data:', error);
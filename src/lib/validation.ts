@@ -5,30 +5,89 @@
  */
 
 import { z } from 'zod';
+import { COLOR_BLINDNESS_TYPES, MAX_SCOPE_LENGTH, MAX_STACK_LAYERS } from './colorblind-filters';
+import { LOW_VISION_KINDS } from './low-vision';
+import { CustomProfileSchema } from './profile-schema';
+
+export { CustomProfileSchema };
 
 /**
  * Color blindness type enum
  */
-export const ColorBlindnessTypeSchema = z.enum([
-  'normal',
-  'protanopia',
-  'protanomaly',
-  'deuteranopia',
-  'deuteranomaly',
-  'tritanopia',
-  'tritanomaly',
-  'achromatopsia',
-  'achromatomaly'
+export const ColorBlindnessTypeSchema = z.enum([...COLOR_BLINDNESS_TYPES, 'custom']);
+
+/**
+ * Simulation algorithm enum
+ */
+export const SimulationAlgorithmSchema = z.enum(['matrix', 'brettel']);
+
+/**
+ * Filter color space enum
+ */
+export const FilterColorSpaceSchema = z.enum(['sRGB', 'linearRGB']);
+
+/**
+ * Filter mode enum
+ */
+export const FilterModeSchema = z.enum(['simulate', 'assist']);
+
+/**
+ * Maximum number of stored custom profiles
+ */
+export const MAX_CUSTOM_PROFILES = 50;
+
+/**
+ * Simulation stack layer schema: a color deficiency or a low-vision condition
+ */
+export const SimulationLayerSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('color'),
+    type: ColorBlindnessTypeSchema,
+    severity: z.number().min(0).max(100),
+    algorithm: SimulationAlgorithmSchema.optional(),
+    customProfile: CustomProfileSchema.optional()
+  }),
+  z.object({
+    kind: z.enum(LOW_VISION_KINDS),
+    severity: z.number().min(0).max(100)
+  })
 ]);
 
+/**
+ * Additional layers stacked after the primary type
+ */
+export const SimulationLayersSchema = z.array(SimulationLayerSchema).max(MAX_STACK_LAYERS - 1);
+
 /**
  * Filter configuration schema
  */
 export const FilterConfigSchema = z.object({
   type: ColorBlindnessTypeSchema,
-  severity: z.number().min(0).max(100).default(100)
+  severity: z.number().min(0).max(100).default(100),
+  mode: FilterModeSchema.optional(),
+  algorithm: SimulationAlgorithmSchema.optional(),
+  colorSpace: FilterColorSpaceSchema.optional(),
+  customProfile: CustomProfileSchema.optional(),
+  layers: SimulationLayersSchema.optional(),
+  scope: z.string().trim().min(1).max(MAX_SCOPE_LENGTH).optional()
 });
 
+/**
+ * Allowed magnifier lens sizes (px) and zoom factors
+ */
+export const LENS_SIZE_RANGE = { min: 100, max: 400 } as const;
+export const LENS_ZOOM_RANGE = { min: 1, max: 4 } as const;
+
+/**
+ * Seconds each type is shown by the demo cycle
+ */
+export const CYCLE_INTERVAL_RANGE = { min: 2, max: 60 } as const;
+
+/**
+ * ΔE00 threshold for palette confusion pairs
+ */
+export const DELTA_E_THRESHOLD_RANGE = { min: 1, max: 50 } as const;
+
 /**
  * User preferences schema
  */
@@ -38,7 +97,17 @@ export const ColorBlindPreferencesSchema = z.object({
   autoApplyOnLoad: z.boolean().default(false),
   showInfoToasts: z.boolean().default(true),
   darkMode: z.boolean().default(false),
-  rememberPerSite: z.boolean().default(false)
+  rememberPerSite: z.boolean().default(false),
+  renderingBackend: z.enum(['auto', 'root', 'elements']).default('auto'),
+  lensMode: z.enum(['simulated', 'inverse']).default('simulated'),
+  lensShape: z.enum(['circle', 'rectangle']).default('circle'),
+  lensSize: z.number().min(LENS_SIZE_RANGE.min).max(LENS_SIZE_RANGE.max).default(200),
+  lensZoom: z.number().min(LENS_ZOOM_RANGE.min).max(LENS_ZOOM_RANGE.max).default(2),
+  showToolbar: z.boolean().default(false),
+  toolbarPosition: z.object({ x: z.number(), y: z.number() }).nullable().default(null),
+  cycleInterval: z.number().min(CYCLE_INTERVAL_RANGE.min).max(CYCLE_INTERVAL_RANGE.max).default(5),
+  cycleTypes: z.array(z.enum(COLOR_BLINDNESS_TYPES)).default([]),
+  deltaEThreshold: z.number().min(DELTA_E_THRESHOLD_RANGE.min).max(DELTA_E_THRESHOLD_RANGE.max).default(10)
 });
 
 /**
@@ -47,6 +116,8 @@ export const ColorBlindPreferencesSchema = z.object({
 export const FilterHistoryEntrySchema = z.object({
   type: ColorBlindnessTypeSchema,
   severity: z.number().min(0).max(100),
+  mode: FilterModeSchema.optional(),
+  layers: SimulationLayersSchema.optional(),
   timestamp: z.number().positive(),
   url: z.string().url().optional()
 });
@@ -59,6 +130,19 @@ export const SiteFilterSettingsSchema = z.record(
   FilterConfigSchema
 );
 
+/**
+ * Maximum number of exclusion selectors per site
+ */
+export const MAX_SITE_EXCLUSIONS = 50;
+
+/**
+ * Per-site exclusion selectors schema
+ */
+export const SiteExclusionsSchema = z.record(
+  z.string().min(1), // hostname key
+  z.array(z.string().trim().min(1).max(MAX_SCOPE_LENGTH)).max(MAX_SITE_EXCLUSIONS)
+);
+
 /**
  * Complete storage data schema for import/export
  */
@@ -66,8 +150,10 @@ export const StorageDataSchema = z.object({
   preferences: ColorBlindPreferencesSchema.optional(),
   filterHistory: z.array(FilterHistoryEntrySchema).max(50).optional(),
   siteSettings: SiteFilterSettingsSchema.optional(),
+  siteExclusions: SiteExclusionsSchema.optional(),
   currentFilter: FilterConfigSchema.optional(),
-  isEnabled: z.boolean().optional()
+  isEnabled: z.boolean().optional(),
+  customProfiles: z.array(CustomProfileSchema).max(MAX_CUSTOM_PROFILES).optional()
 });
 
 /**
@@ -116,6 +202,40 @@ export function validateFilterConfig(config: unknown): z.infer<typeof FilterConf
   return result.data;
 }
 
+/**
+ * Validate a custom deficiency profile
+ * @param profile - Raw profile data
+ * @returns Validated profile
+ * @throws Error describing the first invalid field
+ */
+export function validateCustomProfile(profile: unknown): z.infer<typeof CustomProfileSchema> {
+  const result = CustomProfileSchema.safeParse(profile);
+  
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid profile: ${issue.path.join('.') || 'profile'}: ${issue.message}`);
+  }
+  
+  return result.data;
+}
+
+/**
+ * Validate per-site exclusion selectors
+ * @param exclusions - Raw exclusions keyed by hostname
+ * @returns Validated exclusions with trimmed selectors
+ * @throws Error describing the first invalid entry
+ */
+export function validateSiteExclusions(exclusions: unknown): z.infer<typeof SiteExclusionsSchema> {
+  const result = SiteExclusionsSchema.safeParse(exclusions);
+  
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid exclusions: ${issue.path.join('.') || 'exclusions'}: ${issue.message}`);
+  }
+  
+  return result.data;
+}
+
 /**
  * Validate color blindness type
  * @param type - Type string to validate
@@ -146,6 +266,23 @@ export function isValidHostname(hostname: unknown): hostname is string {
   return HostnameSchema.safeParse(hostname).success;
 }
 
+/**
+ * Validate a CSS selector
+ * @param selector - Selector to validate
+ * @returns true if the browser can parse it
+ */
+export function isValidSelector(selector: unknown): selector is string {
+  if (typeof selector !== 'string' || selector.trim() === '') {
+    return false;
+  }
+  try {
+    document.createDocumentFragment().querySelector(selector);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Sanitize string input
  * @param input - String to sanitize
@@ -187,4 +324,5 @@ export function isValidImportFileSize(size: number): boolean {
 export type ValidatedStorageData = z.infer<typeof StorageDataSchema>;
 export type ValidatedFilterConfig = z.infer<typeof FilterConfigSchema>;
 export type ValidatedPreferences = z.infer<typeof ColorBlindPreferencesSchema>;
+export type ValidatedCustomProfile = z.infer<typeof CustomProfileSchema>;
 
@@ -0,0 +1,112 @@
+import {
+  ColorBlindnessType,
+  CustomProfile,
+  SimulationAlgorithm,
+  SimulationOptions,
+  ALGORITHM_INFO,
+  getAllAlgorithms,
+  getDichromacy,
+  getEffectiveAlgorithm
+} from '../../lib/colorblind-filters';
+
+interface AccuracyOptionsProps {
+  filterType: ColorBlindnessType;
+  customProfile?: CustomProfile;
+  options: SimulationOptions;
+  onOptionsChange: (options: SimulationOptions) => void;
+  disabled?: boolean;
+}
+
+export function AccuracyOptions({
+  filterType,
+  customProfile,
+  options,
+  onOptionsChange,
+  disabled = false
+}: AccuracyOptionsProps) {
+  if (filterType === 'normal') {
+    return null;
+  }
+
+  const algorithm = options.algorithm ?? 'matrix';
+  const isLinear = options.colorSpace === 'linearRGB';
+  // Brettel and LMS profiles always run in linear light, so gamma correction is only a choice for matrices
+  const usesMatrix = getEffectiveAlgorithm({ type: filterType, severity: 100, ...options }) === 'matrix' &&
+    customProfile?.kind !== 'lms';
+
+  return (
+    <div className="accuracy-options space-y-3">
+      {/* Only protan, deutan and tritan types have more than one algorithm */}
+      {getDichromacy(filterType) && (
+        <div>
+          <label
+            htmlFor="simulation-algorithm"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+          >
+            Algorithm
+          </label>
+
+          <select
+            id="simulation-algorithm"
+            value={algorithm}
+            onChange={(e) => onOptionsChange({
+              ...options,
+              algorithm: e.target.value as SimulationAlgorithm
+            })}
+            disabled={disabled}
+            className="w-full px-3 py-2 bg-white dark:bg-gray-800 border border-gray-300
+                       dark:border-gray-600 rounded-lg text-sm text-gray-900 dark:text-gray-100
+                       focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500
+                       disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {getAllAlgorithms().map((value) => (
+              <option key={value} value={value}>
+                {ALGORITHM_INFO[value].name}
+              </option>
+            ))}
+          </select>
+
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            {ALGORITHM_INFO[algorithm].description}
+          </p>
+        </div>
+      )}
+
+      {usesMatrix && (
+        <div className="flex items-center justify-between">
+          <div>
+            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Gamma-correct
+            </span>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Apply the matrix to linear light instead of sRGB values
+            </p>
+          </div>
+          <button
+            onClick={() => onOptionsChange({
+              ...options,
+              colorSpace: isLinear ? 'sRGB' : 'linearRGB'
+            })}
+            disabled={disabled}
+            className={`relative inline-flex h-6 w-11 items-center rounded-full
+                       transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              isLinear
+                ? 'bg-emerald-500'
+                : 'bg-gray-300 dark:bg-gray-600'
+            }`}
+            role="switch"
+            aria-checked={isLinear}
+            aria-label="Gamma-correct filtering"
+          >
+            <span
+              className={`inline-block h-4 w-4 transform rounded-full bg-white shadow
+                         transition-transform ${
+                isLinear ? 'translate-x-6' : 'translate-x-1'
+              }`}
+            />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
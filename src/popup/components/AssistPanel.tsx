@@ -0,0 +1,143 @@
+import {
+  ColorBlindnessType,
+  FILTER_INFO,
+  getAllFilterTypes,
+  isCorrectableType,
+  simulatePalette
+} from '../../lib/colorblind-filters';
+
+interface AssistPanelProps {
+  type: ColorBlindnessType;
+  strength: number;
+  isEnabled: boolean;
+  onTypeChange: (type: ColorBlindnessType) => void;
+  onStrengthChange: (strength: number) => void;
+  onToggle: () => void;
+}
+
+// Red/green and blue/yellow pairs that are hard to tell apart without correction
+const PREVIEW_COLORS = ['#E53935', '#43A047', '#FB8C00', '#1E88E5', '#FDD835', '#8E24AA'];
+
+export function AssistPanel({
+  type,
+  strength,
+  isEnabled,
+  onTypeChange,
+  onStrengthChange,
+  onToggle
+}: AssistPanelProps) {
+  const correctableTypes = getAllFilterTypes().filter(isCorrectableType);
+  const corrected = simulatePalette(PREVIEW_COLORS, { type, severity: strength, mode: 'assist' });
+
+  return (
+    <div className="assist-panel space-y-5">
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Assist recolors the page for your own color vision, moving contrast you
+        cannot see into colors you can (daltonization).
+      </p>
+
+      <div>
+        <label
+          htmlFor="assist-type"
+          className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+        >
+          My color vision
+        </label>
+        <select
+          id="assist-type"
+          value={type}
+          onChange={(e) => onTypeChange(e.target.value as ColorBlindnessType)}
+          className="w-full px-3 py-2 bg-white dark:bg-gray-800 border border-gray-300
+                     dark:border-gray-600 rounded-lg text-sm text-gray-900 dark:text-gray-100
+                     focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+        >
+          {correctableTypes.map((correctable) => (
+            <option key={correctable} value={correctable}>
+              {FILTER_INFO[correctable].name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex flex-col">
+          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            Assist
+          </span>
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {isEnabled ? `Correcting for ${FILTER_INFO[type].shortName}` : 'Not active'}
+          </span>
+        </div>
+
+        <button
+          onClick={onToggle}
+          className={`
+            relative inline-flex h-7 w-14 items-center rounded-full
+            transition-colors duration-200 ease-in-out focus:outline-none
+            focus:ring-2 focus:ring-emerald-500 focus:ring-offset-2
+            dark:focus:ring-offset-gray-900
+            ${isEnabled ? 'bg-emerald-500' : 'bg-gray-300 dark:bg-gray-600'}
+          `}
+          role="switch"
+          aria-checked={isEnabled}
+          aria-label="Toggle color correction"
+        >
+          <span
+            className={`
+              inline-block h-5 w-5 transform rounded-full bg-white shadow-lg
+              transition-transform duration-200 ease-in-out
+              ${isEnabled ? 'translate-x-8' : 'translate-x-1'}
+            `}
+          />
+        </button>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label
+            htmlFor="assist-strength"
+            className="text-sm font-medium text-gray-700 dark:text-gray-300"
+          >
+            Strength
+          </label>
+          <span className="text-sm font-mono text-gray-600 dark:text-gray-400">
+            {strength}%
+          </span>
+        </div>
+        <input
+          id="assist-strength"
+          type="range"
+          min="0"
+          max="100"
+          step="5"
+          value={strength}
+          onChange={(e) => onStrengthChange(parseInt(e.target.value, 10))}
+          className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none
+                     cursor-pointer accent-emerald-500"
+        />
+      </div>
+
+      {/* Before/after preview of common confusion colors */}
+      <div className="bg-gray-50 dark:bg-gray-800/50 rounded-lg p-3 space-y-2">
+        {[
+          { label: 'Original', colors: PREVIEW_COLORS },
+          { label: 'Corrected', colors: corrected }
+        ].map((row) => (
+          <div key={row.label} className="flex items-center gap-2">
+            <span className="w-16 text-xs text-gray-500 dark:text-gray-400">{row.label}</span>
+            <div className="flex gap-1">
+              {row.colors.map((color, i) => (
+                <div
+                  key={i}
+                  className="w-6 h-6 rounded border border-gray-200 dark:border-gray-600"
+                  style={{ backgroundColor: color }}
+                  title={color}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import { FILTER_INFO, ColorBlindnessType, isCorrectableType } from '../../lib/colorblind-filters';
+import {
+  D15Result,
+  D15_CAPS,
+  D15_CAP_COUNT,
+  scoreD15,
+  shuffleD15Caps
+} from '../../lib/color-vision-test';
+
+interface ColorVisionTestProps {
+  onSaveDefault: (type: ColorBlindnessType, severity: number) => void;
+  onUseForAssist: (type: ColorBlindnessType) => void;
+}
+
+function Cap({ id, onClick, label }: { id: number; onClick?: () => void; label: string }) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={!onClick}
+      aria-label={label}
+      className="w-7 h-7 rounded-full border border-gray-300 dark:border-gray-600
+                 hover:scale-110 transition-transform disabled:hover:scale-100
+                 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+      style={{ backgroundColor: D15_CAPS[id].color }}
+    />
+  );
+}
+
+export function ColorVisionTest({ onSaveDefault, onUseForAssist }: ColorVisionTestProps) {
+  const [tray, setTray] = useState<number[] | null>(null);
+  const [placed, setPlaced] = useState<number[]>([]);
+  const [result, setResult] = useState<D15Result | null>(null);
+
+  const handleStart = () => {
+    setTray(shuffleD15Caps());
+    setPlaced([]);
+    setResult(null);
+  };
+
+  const handlePlace = (id: number) => {
+    setPlaced([...placed, id]);
+    setTray(tray?.filter(cap => cap !== id) ?? null);
+  };
+
+  const handleUnplace = (id: number) => {
+    setPlaced(placed.filter(cap => cap !== id));
+    setTray([...(tray ?? []), id]);
+  };
+
+  const buttonClassName = `flex-1 px-3 py-2 text-sm text-gray-700 dark:text-gray-300
+                           bg-gray-100 dark:bg-gray-800 rounded-lg
+                           hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors`;
+
+  if (!tray) {
+    return (
+      <div className="color-vision-test space-y-2">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Not sure which type fits you? A short arrangement test (D-15 style)
+          estimates your type and severity.
+        </p>
+        <button onClick={handleStart} className={`w-full ${buttonClassName}`}>
+          Take the Color Vision Test
+        </button>
+      </div>
+    );
+  }
+
+  if (result) {
+    const { type, severity } = result;
+    return (
+      <div className="color-vision-test space-y-3">
+        <div className="bg-gray-50 dark:bg-gray-800/50 rounded-lg p-3">
+          <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+            {type === null
+              ? 'Inconclusive'
+              : type === 'normal'
+                ? FILTER_INFO[type].name
+                : `${FILTER_INFO[type].name}, ${severity}%`}
+          </p>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            Confusion angle {result.confusionAngle}°, C-index {result.cIndex}, S-index {result.sIndex}
+          </p>
+          {type === null && (
+            <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">
+              Your errors had no clear direction, so they match no type. Try again slowly.
+            </p>
+          )}
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            A screening aid only, not a medical diagnosis. Results depend on your display.
+          </p>
+        </div>
+
+        {/* A normal result simulates nothing, so only deficiencies are worth saving */}
+        {type !== null && type !== 'normal' && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => onSaveDefault(type, severity)}
+              className="flex-1 px-3 py-2 text-sm text-white bg-emerald-600
+                         rounded-lg hover:bg-emerald-700 transition-colors"
+            >
+              Save as Default
+            </button>
+            {isCorrectableType(type) && (
+              <button onClick={() => onUseForAssist(type)} className={buttonClassName}>
+                Use for Assist
+              </button>
+            )}
+          </div>
+        )}
+        <button onClick={handleStart} className={`w-full ${buttonClassName}`}>
+          Retake Test
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="color-vision-test space-y-3">
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Starting from the fixed cap, pick the cap closest in color to the last one,
+        until all {D15_CAP_COUNT} are placed. Click a placed cap to take it back.
+      </p>
+
+      {/* Arrangement so far, starting with the pilot */}
+      <div className="flex flex-wrap gap-1 p-2 min-h-[2.75rem] bg-gray-50 dark:bg-gray-800/50 rounded-lg">
+        <Cap id={0} label="Fixed starting cap" />
+        {placed.map((id, index) => (
+          <Cap
+            key={id}
+            id={id}
+            label={`Placed cap ${index + 1}, click to remove`}
+            onClick={() => handleUnplace(id)}
+          />
+        ))}
+      </div>
+
+      {/* Remaining caps in random order */}
+      <div className="flex flex-wrap gap-1 p-2 min-h-[2.75rem] border border-dashed
+                      border-gray-300 dark:border-gray-600 rounded-lg">
+        {tray.map((id, index) => (
+          <Cap
+            key={id}
+            id={id}
+            label={`Remaining cap ${index + 1}`}
+            onClick={() => handlePlace(id)}
+          />
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => setResult(scoreD15(placed))}
+          disabled={placed.length !== D15_CAP_COUNT}
+          className="flex-1 px-3 py-2 text-sm text-white bg-emerald-600 rounded-lg
+                     hover:bg-emerald-700 transition-colors
+                     disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Score
+        </button>
+        <button onClick={() => setTray(null)} className={buttonClassName}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+interface CompareButtonProps {
+  isComparing: boolean;
+  onToggle: () => void;
+  disabled?: boolean;
+}
+
+export function CompareButton({ isComparing, onToggle, disabled = false }: CompareButtonProps) {
+  return (
+    <button
+      onClick={onToggle}
+      disabled={disabled}
+      aria-pressed={isComparing}
+      title="Normal vision on the left, simulation on the right. Drag the divider in the page."
+      className={`w-full flex items-center justify-center gap-2 px-3 py-2 text-sm rounded-lg
+                  transition-colors disabled:opacity-50 disabled:cursor-not-allowed
+                  ${isComparing
+                    ? 'text-white bg-emerald-600 hover:bg-emerald-700'
+                    : 'text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700'
+                  }`}
+    >
+      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3v18M4 5h16v14H4z" />
+      </svg>
+      {isComparing ? 'Stop Comparing' : 'Compare Side by Side'}
+    </button>
+  );
+}
@@ -0,0 +1,281 @@
+import { useState } from 'react';
+import {
+  BuiltInColorBlindnessType,
+  CustomProfile,
+  FILTER_INFO,
+  getAllFilterTypes,
+  getColorMatrix
+} from '../../lib/colorblind-filters';
+import { validateCustomProfile } from '../../lib/validation';
+
+interface CustomProfileEditorProps {
+  profiles: CustomProfile[];
+  onSave: (profile: CustomProfile) => Promise<void>;
+  onDelete: (id: string) => void;
+}
+
+// Profile being edited; cells stay as strings so partial input like "-0." is allowed
+interface ProfileDraft {
+  id: string;
+  name: string;
+  description: string;
+  kind: CustomProfile['kind'];
+  cells: string[];
+}
+
+const MATRIX_LAYOUT = { rows: ['R', 'G', 'B', 'A'], columns: ['R', 'G', 'B', 'A', '+'] };
+const LMS_LAYOUT = { rows: ['L', 'M', 'S'], columns: ['L', 'M', 'S'] };
+const LMS_IDENTITY = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+function getTemplateValues(kind: CustomProfile['kind'], from: BuiltInColorBlindnessType): number[] {
+  return kind === 'lms' ? LMS_IDENTITY : getColorMatrix({ type: from, severity: 100 });
+}
+
+function toCells(values: number[]): string[] {
+  return values.map(value => String(Math.round(value * 10000) / 10000));
+}
+
+function toDraft(profile: CustomProfile): ProfileDraft {
+  return {
+    id: profile.id,
+    name: profile.name,
+    description: profile.description,
+    kind: profile.kind,
+    cells: toCells(profile.values)
+  };
+}
+
+export function CustomProfileEditor({ profiles, onSave, onDelete }: CustomProfileEditorProps) {
+  const [draft, setDraft] = useState<ProfileDraft | null>(null);
+  const [startFrom, setStartFrom] = useState<BuiltInColorBlindnessType>('normal');
+  const [error, setError] = useState<string | null>(null);
+
+  const layout = draft?.kind === 'lms' ? LMS_LAYOUT : MATRIX_LAYOUT;
+
+  const handleNew = () => {
+    setError(null);
+    setStartFrom('normal');
+    setDraft({
+      id: crypto.randomUUID(),
+      name: '',
+      description: '',
+      kind: 'matrix',
+      cells: toCells(getTemplateValues('matrix', 'normal'))
+    });
+  };
+
+  const handleKindChange = (kind: CustomProfile['kind']) => {
+    if (!draft) return;
+    setDraft({ ...draft, kind, cells: toCells(getTemplateValues(kind, startFrom)) });
+  };
+
+  const handleStartFromChange = (type: BuiltInColorBlindnessType) => {
+    if (!draft) return;
+    setStartFrom(type);
+    setDraft({ ...draft, cells: toCells(getTemplateValues(draft.kind, type)) });
+  };
+
+  const handleCellChange = (index: number, value: string) => {
+    if (!draft) return;
+    const cells = [...draft.cells];
+    cells[index] = value;
+    setDraft({ ...draft, cells });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    try {
+      const profile = validateCustomProfile({
+        id: draft.id,
+        name: draft.name,
+        description: draft.description,
+        kind: draft.kind,
+        values: draft.cells.map(cell => (cell.trim() === '' ? NaN : Number(cell)))
+      });
+      await onSave(profile);
+      setDraft(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save profile');
+    }
+  };
+
+  const inputClassName = `w-full px-3 py-2 bg-white dark:bg-gray-800 border border-gray-300
+                          dark:border-gray-600 rounded-lg text-sm text-gray-900 dark:text-gray-100
+                          focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500`;
+
+  return (
+    <div className="custom-profile-editor space-y-3">
+      {/* Saved profiles */}
+      {profiles.length > 0 ? (
+        <ul className="space-y-2">
+          {profiles.map((profile) => (
+            <li
+              key={profile.id}
+              className="flex items-center justify-between gap-2 px-3 py-2 bg-gray-50
+                         dark:bg-gray-800/50 rounded-lg"
+            >
+              <div className="min-w-0">
+                <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 truncate">
+                  {profile.name}
+                </span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {profile.kind === 'lms' ? 'LMS transform' : 'Color matrix'}
+                </span>
+              </div>
+              <div className="flex gap-1 shrink-0">
+                <button
+                  onClick={() => {
+                    setError(null);
+                    setDraft(toDraft(profile));
+                  }}
+                  className="px-2 py-1 text-xs text-gray-700 dark:text-gray-300 rounded
+                             hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => onDelete(profile.id)}
+                  className="px-2 py-1 text-xs text-red-600 dark:text-red-400 rounded
+                             hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          No custom profiles yet. Create one from a measured or published matrix.
+        </p>
+      )}
+
+      {!draft ? (
+        <button
+          onClick={handleNew}
+          className="w-full px-3 py-2 text-sm bg-gray-100 dark:bg-gray-800
+                     text-gray-700 dark:text-gray-300 rounded-lg
+                     hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+        >
+          New Profile
+        </button>
+      ) : (
+        <div className="p-3 space-y-3 border border-gray-200 dark:border-gray-700 rounded-lg">
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Profile name"
+            maxLength={50}
+            aria-label="Profile name"
+            className={inputClassName}
+          />
+
+          <textarea
+            value={draft.description}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            placeholder="Description (optional)"
+            maxLength={500}
+            rows={2}
+            aria-label="Profile description"
+            className={inputClassName}
+          />
+
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={draft.kind}
+              onChange={(e) => handleKindChange(e.target.value as CustomProfile['kind'])}
+              aria-label="Profile format"
+              className={inputClassName}
+            >
+              <option value="matrix">Color matrix (4x5)</option>
+              <option value="lms">LMS transform (3x3)</option>
+            </select>
+
+            {draft.kind === 'matrix' && (
+              <select
+                value={startFrom}
+                onChange={(e) => handleStartFromChange(e.target.value as BuiltInColorBlindnessType)}
+                aria-label="Start from"
+                className={inputClassName}
+              >
+                {getAllFilterTypes().map((type) => (
+                  <option key={type} value={type}>
+                    {FILTER_INFO[type].shortName}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          {/* Matrix grid: one row per output channel */}
+          <div
+            className="grid gap-1 items-center"
+            style={{ gridTemplateColumns: `1rem repeat(${layout.columns.length}, minmax(0, 1fr))` }}
+          >
+            <span />
+            {layout.columns.map((column, i) => (
+              <span key={i} className="text-center text-xs text-gray-400 dark:text-gray-500">
+                {column}
+              </span>
+            ))}
+            {layout.rows.map((row, rowIndex) => (
+              <div key={row} className="contents">
+                <span className="text-xs text-gray-400 dark:text-gray-500">{row}</span>
+                {layout.columns.map((_, colIndex) => {
+                  const index = rowIndex * layout.columns.length + colIndex;
+                  return (
+                    <input
+                      key={colIndex}
+                      type="text"
+                      inputMode="decimal"
+                      value={draft.cells[index]}
+                      onChange={(e) => handleCellChange(index, e.target.value)}
+                      aria-label={`${row} row, ${layout.columns[colIndex]} column`}
+                      className="w-full px-1 py-1 bg-white dark:bg-gray-800 border border-gray-300
+                                 dark:border-gray-600 rounded text-xs font-mono text-center
+                                 text-gray-900 dark:text-gray-100 focus:ring-1 focus:ring-emerald-500"
+                    />
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+
+          {draft.kind === 'lms' && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Applied to cone responses in linear light; identity leaves colors unchanged.
+            </p>
+          )}
+
+          {error && (
+            <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              className="flex-1 px-3 py-2 text-sm text-white bg-emerald-600
+                         rounded-lg hover:bg-emerald-700 transition-colors"
+            >
+              Save Profile
+            </button>
+            <button
+              onClick={() => {
+                setDraft(null);
+                setError(null);
+              }}
+              className="flex-1 px-3 py-2 text-sm text-gray-700 dark:text-gray-300
+                         bg-gray-100 dark:bg-gray-800 rounded-lg
+                         hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import type { BuiltInColorBlindnessType } from '../../lib/colorblind-filters';
+import { FILTER_INFO, getAllFilterTypes } from '../../lib/colorblind-filters';
+import { CYCLE_INTERVAL_RANGE } from '../../lib/validation';
+
+// Seconds offered for each step, within CYCLE_INTERVAL_RANGE
+const INTERVAL_OPTIONS = [2, 3, 5, 10, 15, 30, 60].filter(
+  seconds => seconds >= CYCLE_INTERVAL_RANGE.min && seconds <= CYCLE_INTERVAL_RANGE.max
+);
+
+interface CycleControlsProps {
+  interval: number;
+  types: BuiltInColorBlindnessType[];
+  onIntervalChange: (interval: number) => void;
+  onTypesChange: (types: BuiltInColorBlindnessType[]) => void;
+  isCycling: boolean;
+  onToggle: () => void;
+  disabled?: boolean;
+}
+
+export function CycleControls({
+  interval,
+  types,
+  onIntervalChange,
+  onTypesChange,
+  isCycling,
+  onToggle,
+  disabled = false
+}: CycleControlsProps) {
+  const allTypes = getAllFilterTypes();
+  // No selection means every type
+  const selected = types.length > 0 ? types : allTypes;
+
+  const handleTypeToggle = (type: BuiltInColorBlindnessType) => {
+    const next = selected.includes(type)
+      ? selected.filter(t => t !== type)
+      : allTypes.filter(t => t === type || selected.includes(t));
+    if (next.length === 0) {
+      return;
+    }
+    onTypesChange(next.length === allTypes.length ? [] : next);
+  };
+
+  return (
+    <details className="cycle-controls">
+      <summary
+        className="flex items-center justify-between cursor-pointer text-sm font-medium
+                   text-gray-700 dark:text-gray-300 select-none"
+      >
+        <span>Demo Cycle</span>
+        <span className="text-xs font-normal text-gray-500 dark:text-gray-400">
+          {selected.length === allTypes.length ? 'All types' : `${selected.length} types`}, every {interval}s
+        </span>
+      </summary>
+
+      <div className="mt-3 space-y-3">
+        <label className="flex items-center justify-between text-xs text-gray-700 dark:text-gray-300">
+          Seconds per type
+          <select
+            value={interval}
+            onChange={(e) => onIntervalChange(Number(e.target.value))}
+            className="px-2 py-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600
+                       rounded-lg text-xs text-gray-900 dark:text-gray-100
+                       focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+          >
+            {INTERVAL_OPTIONS.map(seconds => (
+              <option key={seconds} value={seconds}>{seconds}</option>
+            ))}
+          </select>
+        </label>
+
+        <fieldset className="grid grid-cols-2 gap-1">
+          <legend className="sr-only">Types to cycle through</legend>
+          {allTypes.map(type => (
+            <label key={type} className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={selected.includes(type)}
+                onChange={() => handleTypeToggle(type)}
+                className="rounded text-emerald-500 focus:ring-emerald-500"
+              />
+              {FILTER_INFO[type].shortName}
+            </label>
+          ))}
+        </fieldset>
+
+        <button
+          onClick={onToggle}
+          disabled={disabled}
+          aria-pressed={isCycling}
+          className={`w-full px-3 py-2 text-sm rounded-lg transition-colors
+                      disabled:opacity-50 disabled:cursor-not-allowed
+                      ${isCycling
+                        ? 'text-white bg-emerald-600 hover:bg-emerald-700'
+                        : 'text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700'
+                      }`}
+        >
+          {isCycling ? 'Stop Cycling' : 'Start Cycling'}
+        </button>
+
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Pause, previous and next are on the page caption. <kbd>Alt+Shift+D</kbd> starts or stops it.
+        </p>
+      </div>
+    </details>
+  );
+}
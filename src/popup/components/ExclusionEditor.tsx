@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { MAX_SCOPE_LENGTH } from '../../lib/colorblind-filters';
+import { MAX_SITE_EXCLUSIONS, isValidSelector } from '../../lib/validation';
+
+interface ExclusionEditorProps {
+  hostname: string;
+  selectors: string[];
+  onSelectorsChange: (selectors: string[]) => void;
+}
+
+export function ExclusionEditor({ hostname, selectors, onSelectorsChange }: ExclusionEditorProps) {
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const isFull = selectors.length >= MAX_SITE_EXCLUSIONS;
+
+  const handleAdd = () => {
+    const selector = draft.trim();
+    if (!isValidSelector(selector)) {
+      setError('Not a valid CSS selector');
+      return;
+    }
+    setError(null);
+    setDraft('');
+    if (!selectors.includes(selector)) {
+      onSelectorsChange([...selectors, selector]);
+    }
+  };
+
+  return (
+    <details className="exclusion-editor">
+      <summary
+        className="flex items-center justify-between cursor-pointer text-sm font-medium
+                   text-gray-700 dark:text-gray-300 select-none"
+      >
+        <span>Exclusions</span>
+        <span className="text-xs font-normal text-gray-500 dark:text-gray-400">
+          {selectors.length > 0 ? `${selectors.length} on this site` : 'None'}
+        </span>
+      </summary>
+
+      <div className="mt-3 space-y-2">
+        {selectors.length > 0 && (
+          <ul className="space-y-1">
+            {selectors.map((selector) => (
+              <li
+                key={selector}
+                className="flex items-center justify-between gap-2 px-3 py-1.5
+                           bg-gray-50 dark:bg-gray-800/50 rounded-lg"
+              >
+                <code className="text-xs text-gray-700 dark:text-gray-300 truncate" title={selector}>
+                  {selector}
+                </code>
+                <button
+                  onClick={() => onSelectorsChange(selectors.filter(s => s !== selector))}
+                  aria-label={`Remove exclusion ${selector}`}
+                  className="px-1.5 py-0.5 text-xs text-gray-600 dark:text-gray-400 rounded
+                             hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            maxLength={MAX_SCOPE_LENGTH}
+            placeholder=".logo, #legend"
+            aria-label={`CSS selector to exclude on ${hostname}`}
+            aria-invalid={error !== null}
+            disabled={isFull}
+            className="flex-1 min-w-0 px-3 py-1.5 bg-white dark:bg-gray-800 border border-gray-300
+                       dark:border-gray-600 rounded-lg text-xs font-mono text-gray-900 dark:text-gray-100
+                       focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500
+                       disabled:opacity-50 disabled:cursor-not-allowed"
+          />
+          <button
+            onClick={handleAdd}
+            disabled={isFull || draft.trim() === ''}
+            className="px-3 py-1.5 text-xs text-gray-700 dark:text-gray-300
+                       bg-gray-100 dark:bg-gray-800 rounded-lg
+                       hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors
+                       disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add
+          </button>
+        </div>
+
+        {error && (
+          <p className="text-xs text-red-600 dark:text-red-400" role="alert">
+            {error}
+          </p>
+        )}
+
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Matching elements on {hostname} are never simulated.
+        </p>
+      </div>
+    </details>
+  );
+}
@@ -1,13 +1,35 @@
 import { Fragment } from 'react';
-import { ColorBlindnessType, FILTER_INFO } from '../../lib/colorblind-filters';
+import {
+  ColorBlindnessType,
+  FilterConfig,
+  SimulationLayer,
+  getFilterInfo,
+  getLayerLabel,
+  hasActiveSimulation,
+  simulatePalette
+} from '../../lib/colorblind-filters';
+import { LOW_VISION_INFO } from '../../lib/low-vision';
+
+function getLayerDescription(layer: SimulationLayer): string {
+  if (layer.kind === 'color') {
+    return getFilterInfo(layer).description;
+  }
+  return LOW_VISION_INFO[layer.kind].description;
+}
 
 interface FilterInfoProps {
-  filterType: ColorBlindnessType;
+  config: FilterConfig;
   isEnabled: boolean;
 }
 
-// Color palette examples for each type
-const COLOR_EXAMPLES: Record<ColorBlindnessType, { confused: string[][]; description: string }> = {
+interface ColorExample {
+  confused: string[][];
+  description: string;
+}
+
+// Color palette examples for each type. Types without an entry fall back
+// to the filter description and show no confusion swatches.
+const COLOR_EXAMPLES: Partial<Record<ColorBlindnessType, ColorExample>> = {
   normal: {
     confused: [],
     description: 'Full color perception'
@@ -69,12 +91,20 @@ const COLOR_EXAMPLES: Record<ColorBlindnessType, { confused: string[][]; descrip
       ['#00FF00', '#808080'],
     ],
     description: 'Severely reduced color perception. Colors appear very desaturated.'
+  },
+  'blue-cone-monochromacy': {
+    confused: [
+      ['#FF0000', '#000000'],
+      ['#0000FF', '#FFFFFF'],
+    ],
+    description: 'Only blue cones and rods work. Reds look almost black while blues look bright.'
   }
 };
 
-export function FilterInfo({ filterType, isEnabled }: FilterInfoProps) {
-  const info = FILTER_INFO[filterType];
-  const examples = COLOR_EXAMPLES[filterType];
+export function FilterInfo({ config, isEnabled }: FilterInfoProps) {
+  const filterType = config.type;
+  const info = getFilterInfo(config);
+  const examples = COLOR_EXAMPLES[filterType] ?? { confused: [], description: info.description };
   
   return (
     <div className="filter-info p-4 bg-gray-50 dark:bg-gray-800/50 rounded-xl">
@@ -82,13 +112,13 @@ export function FilterInfo({ filterType, isEnabled }: FilterInfoProps) {
       <div className="flex items-center gap-2 mb-3">
         <div 
           className={`w-2 h-2 rounded-full ${
-            isEnabled && filterType !== 'normal' 
+            isEnabled && hasActiveSimulation(config) 
               ? 'bg-emerald-500 animate-pulse' 
               : 'bg-gray-400'
           }`} 
         />
         <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
-          {isEnabled && filterType !== 'normal' ? 'Simulation Active' : 'Simulation Off'}
+          {isEnabled && hasActiveSimulation(config) ? 'Simulation Active' : 'Simulation Off'}
         </span>
       </div>
       
@@ -123,7 +153,7 @@ export function FilterInfo({ filterType, isEnabled }: FilterInfoProps) {
         {examples.confused.length > 0 && (
           <div>
             <span className="text-xs text-gray-500 dark:text-gray-400 block mb-2">
-              Colors that may appear similar:
+              Colors that may appear similar (original above, simulated below):
             </span>
             <div className="flex flex-wrap gap-2">
               {examples.confused.map((group, i) => (
@@ -132,13 +162,20 @@ export function FilterInfo({ filterType, isEnabled }: FilterInfoProps) {
                   className="flex items-center gap-1 bg-white dark:bg-gray-800 
                              p-1.5 rounded-lg shadow-sm"
                 >
-                  {group.map((color, j) => (
+                  {simulatePalette(group, config).map((simulated, j) => (
                     <Fragment key={j}>
-                      <div 
-                        className="w-5 h-5 rounded border border-gray-200 dark:border-gray-600"
-                        style={{ backgroundColor: color }}
-                        title={color}
-                      />
+                      <div className="flex flex-col gap-0.5">
+                        <div 
+                          className="w-5 h-5 rounded border border-gray-200 dark:border-gray-600"
+                          style={{ backgroundColor: group[j] }}
+                          title={group[j]}
+                        />
+                        <div 
+                          className="w-5 h-5 rounded border border-gray-200 dark:border-gray-600"
+                          style={{ backgroundColor: simulated }}
+                          title={`${group[j]} → ${simulated}`}
+                        />
+                      </div>
                       {j < group.length - 1 && (
                         <span className="text-gray-400 text-xs">≈</span>
                       )}
@@ -149,6 +186,18 @@ export function FilterInfo({ filterType, isEnabled }: FilterInfoProps) {
             </div>
           </div>
         )}
+        
+        {/* Additional stack layers, in application order */}
+        {(config.layers ?? []).map((layer, index) => (
+          <div key={index} className="bg-white dark:bg-gray-800 p-2 rounded-lg text-xs">
+            <span className="text-gray-900 dark:text-gray-100 font-medium">
+              + {getLayerLabel(layer)} ({layer.severity}%)
+            </span>
+            <p className="text-gray-600 dark:text-gray-400 mt-0.5">
+              {getLayerDescription(layer)}
+            </p>
+          </div>
+        ))}
       </div>
       
       {/* Tips */}
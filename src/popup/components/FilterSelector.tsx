@@ -1,21 +1,47 @@
 import { 
   ColorBlindnessType, 
+  CustomProfile,
+  FILTER_CATEGORY_LABELS,
   FILTER_INFO, 
+  getFilterInfo,
   getFiltersByCategory 
 } from '../../lib/colorblind-filters';
 
 interface FilterSelectorProps {
   selectedFilter: ColorBlindnessType;
-  onFilterChange: (filter: ColorBlindnessType) => void;
+  onFilterChange: (filter: ColorBlindnessType, profile?: CustomProfile) => void;
+  customProfiles?: CustomProfile[];
+  selectedProfile?: CustomProfile;
   disabled?: boolean;
 }
 
+// Custom profiles share the 'custom' type, so options carry the profile id
+const CUSTOM_VALUE_PREFIX = 'custom:';
+
 export function FilterSelector({ 
   selectedFilter, 
   onFilterChange,
+  customProfiles = [],
+  selectedProfile,
   disabled = false 
 }: FilterSelectorProps) {
   const categories = getFiltersByCategory();
+  const info = getFilterInfo({ type: selectedFilter, customProfile: selectedProfile });
+  const value = selectedFilter === 'custom' && selectedProfile
+    ? CUSTOM_VALUE_PREFIX + selectedProfile.id
+    : selectedFilter;
+  
+  const handleChange = (newValue: string) => {
+    if (newValue.startsWith(CUSTOM_VALUE_PREFIX)) {
+      const id = newValue.slice(CUSTOM_VALUE_PREFIX.length);
+      const profile = customProfiles.find(p => p.id === id);
+      if (profile) {
+        onFilterChange('custom', profile);
+      }
+      return;
+    }
+    onFilterChange(newValue as ColorBlindnessType);
+  };
   
   return (
     <div className="filter-selector">
@@ -28,8 +54,8 @@ export function FilterSelector({
       
       <select
         id="filter-type"
-        value={selectedFilter}
-        onChange={(e) => onFilterChange(e.target.value as ColorBlindnessType)}
+        value={value}
+        onChange={(e) => handleChange(e.target.value)}
         disabled={disabled}
         className="w-full px-3 py-2.5 bg-white dark:bg-gray-800 border border-gray-300 
                    dark:border-gray-600 rounded-lg shadow-sm focus:ring-2 
@@ -47,20 +73,29 @@ export function FilterSelector({
             ))}
           </optgroup>
         ))}
+        {customProfiles.length > 0 && (
+          <optgroup label={FILTER_CATEGORY_LABELS.custom}>
+            {customProfiles.map((profile) => (
+              <option key={profile.id} value={CUSTOM_VALUE_PREFIX + profile.id}>
+                {profile.name}
+              </option>
+            ))}
+          </optgroup>
+        )}
       </select>
       
       {selectedFilter !== 'normal' && (
         <div className="mt-3 p-3 bg-gray-50 dark:bg-gray-800/50 rounded-lg">
           <p className="text-xs text-gray-600 dark:text-gray-400 leading-relaxed">
-            {FILTER_INFO[selectedFilter].description}
+            {info.description}
           </p>
           <div className="mt-2 flex items-center gap-3 text-xs text-gray-500 dark:text-gray-500">
             <span className="flex items-center gap-1">
               <span className="font-medium">Affects:</span>
-              <span>{FILTER_INFO[selectedFilter].affectedCone}</span>
+              <span>{info.affectedCone}</span>
             </span>
             <span className="text-gray-300 dark:text-gray-600">|</span>
-            <span>{FILTER_INFO[selectedFilter].prevalence}</span>
+            <span>{info.prevalence}</span>
           </div>
         </div>
       )}
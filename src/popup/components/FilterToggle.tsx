@@ -1,20 +1,19 @@
-import { ColorBlindnessType, FILTER_INFO } from '../../lib/colorblind-filters';
+import { FilterConfig, getSimulationLabel, hasActiveSimulation } from '../../lib/colorblind-filters';
 
 interface FilterToggleProps {
   isEnabled: boolean;
-  filterType: ColorBlindnessType;
+  config: FilterConfig;
   onToggle: () => void;
   disabled?: boolean;
 }
 
 export function FilterToggle({ 
   isEnabled, 
-  filterType, 
+  config, 
   onToggle,
   disabled = false 
 }: FilterToggleProps) {
-  const isNormal = filterType === 'normal';
-  const canEnable = !isNormal;
+  const canEnable = hasActiveSimulation(config);
   
   return (
     <div className="filter-toggle">
@@ -25,7 +24,7 @@ export function FilterToggle({
           </span>
           <span className="text-xs text-gray-500 dark:text-gray-400">
             {isEnabled && canEnable 
-              ? `${FILTER_INFO[filterType].shortName} active` 
+              ? `${getSimulationLabel(config, true)} active` 
               : 'Not active'
             }
           </span>
@@ -59,9 +58,9 @@ export function FilterToggle({
         </button>
       </div>
       
-      {isNormal && (
+      {!canEnable && (
         <p className="mt-2 text-xs text-amber-600 dark:text-amber-400">
-          Select a color blindness type to enable simulation
+          Select a color blindness type or low-vision condition to enable simulation
         </p>
       )}
     </div>
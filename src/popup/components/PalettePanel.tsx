@@ -0,0 +1,193 @@
+import { useMemo } from 'react';
+import type { SimulationOptions } from '../../lib/colorblind-filters';
+import { FILTER_INFO } from '../../lib/colorblind-filters';
+import type { PagePalette } from '../../lib/palette';
+import { createPaletteReport, findConfusionPairsByType, scorePalette } from '../../lib/palette';
+import { DELTA_E_THRESHOLD_RANGE } from '../../lib/validation';
+
+// Swatches shown before the rest are summarized
+const MAX_SWATCHES = 48;
+
+// Confusion pairs listed per type
+const MAX_LISTED_PAIRS = 20;
+
+// ΔE00 thresholds offered, within DELTA_E_THRESHOLD_RANGE
+const THRESHOLD_OPTIONS = [3, 5, 10, 15, 20, 30].filter(
+  value => value >= DELTA_E_THRESHOLD_RANGE.min && value <= DELTA_E_THRESHOLD_RANGE.max
+);
+
+interface PalettePanelProps {
+  palette: PagePalette | null;
+  options: SimulationOptions;
+  threshold: number; // ΔE00
+  onThresholdChange: (threshold: number) => void;
+  isScanning: boolean;
+  onScan: () => void;
+}
+
+function PairSample({ foreground, background }: { foreground: string; background: string }) {
+  return (
+    <span
+      className="inline-block px-1.5 py-0.5 rounded border border-gray-200 dark:border-gray-600 text-xs font-semibold"
+      style={{ color: foreground, backgroundColor: background }}
+      title={`${foreground} on ${background}`}
+    >
+      Aa
+    </span>
+  );
+}
+
+export function PalettePanel({
+  palette,
+  options,
+  threshold,
+  onThresholdChange,
+  isScanning,
+  onScan
+}: PalettePanelProps) {
+  const scores = useMemo(() => (palette ? scorePalette(palette, options) : []), [palette, options]);
+  const confusions = useMemo(() => findConfusionPairsByType(scores, threshold), [scores, threshold]);
+
+  const handleExport = () => {
+    if (!palette) return;
+    const report = createPaletteReport(palette, scores, threshold, options);
+    const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'colorblind-simulator-palette-report.json';
+    a.click();
+
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="palette-panel space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Collects the colors the page paints and the pairs that meet, such as
+          text on its background, then finds the pairs that drop below the
+          CIEDE2000 threshold under each type.
+        </p>
+        <button
+          onClick={onScan}
+          disabled={isScanning}
+          className="shrink-0 px-3 py-1.5 text-sm text-white bg-emerald-600 hover:bg-emerald-700
+                     rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isScanning ? 'Scanning…' : palette ? 'Rescan' : 'Scan Page'}
+        </button>
+      </div>
+
+      {palette && (
+        <>
+          <div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+              {palette.colors.length} colors and {palette.pairs.length} pairs on {palette.elementCount} elements
+              {palette.isTruncated && ' (page only partly scanned)'}
+            </p>
+            <div className="flex flex-wrap gap-1">
+              {palette.colors.slice(0, MAX_SWATCHES).map((entry) => (
+                <div
+                  key={entry.color}
+                  className="w-6 h-6 rounded border border-gray-200 dark:border-gray-600"
+                  style={{ backgroundColor: entry.color }}
+                  title={`${entry.color} · ${entry.count} uses · ${entry.roles.join(', ')}\n${entry.selectors.join('\n')}`}
+                />
+              ))}
+              {palette.colors.length > MAX_SWATCHES && (
+                <span className="text-xs text-gray-500 dark:text-gray-400 self-center">
+                  +{palette.colors.length - MAX_SWATCHES} more
+                </span>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Confusion Pairs
+              </h3>
+              <label className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                ΔE00 below
+                <select
+                  value={threshold}
+                  onChange={(e) => onThresholdChange(Number(e.target.value))}
+                  className="px-2 py-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600
+                             rounded-lg text-xs text-gray-900 dark:text-gray-100
+                             focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+                >
+                  {!THRESHOLD_OPTIONS.includes(threshold) && (
+                    <option value={threshold}>{threshold}</option>
+                  )}
+                  {THRESHOLD_OPTIONS.map(value => (
+                    <option key={value} value={value}>{value}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            {confusions.map(({ type, pairs }) => (
+              <details
+                key={type}
+                className="bg-gray-50 dark:bg-gray-800/50 rounded-lg px-3 py-2"
+              >
+                <summary className="flex items-center justify-between cursor-pointer text-sm text-gray-700 dark:text-gray-300 select-none">
+                  <span>{FILTER_INFO[type].shortName}</span>
+                  <span
+                    className={`text-xs font-medium ${
+                      pairs.length > 0
+                        ? 'text-amber-600 dark:text-amber-400'
+                        : 'text-emerald-600 dark:text-emerald-400'
+                    }`}
+                  >
+                    {pairs.length > 0 ? `${pairs.length} pairs` : 'None'}
+                  </span>
+                </summary>
+
+                {pairs.length > 0 ? (
+                  <ul className="mt-2 space-y-1.5">
+                    {pairs.slice(0, MAX_LISTED_PAIRS).map(({ pair, deltaE, simulated }) => (
+                      <li
+                        key={`${pair.foreground} ${pair.background}`}
+                        className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400"
+                      >
+                        <PairSample foreground={pair.foreground} background={pair.background} />
+                        <span aria-hidden="true">→</span>
+                        <PairSample foreground={simulated.foreground} background={simulated.background} />
+                        <span className="shrink-0 font-mono" title="CIEDE2000 difference, normal → simulated">
+                          {deltaE.toFixed(1)} → {simulated.deltaE.toFixed(1)}
+                        </span>
+                        <span className="shrink-0">×{pair.count}</span>
+                        <code className="truncate" title={pair.selectors.join('\n')}>
+                          {pair.selectors[0]}
+                        </code>
+                      </li>
+                    ))}
+                    {pairs.length > MAX_LISTED_PAIRS && (
+                      <li className="text-xs text-gray-500 dark:text-gray-400">
+                        and {pairs.length - MAX_LISTED_PAIRS} less used pairs
+                      </li>
+                    )}
+                  </ul>
+                ) : (
+                  <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                    Every pair stays distinguishable.
+                  </p>
+                )}
+              </details>
+            ))}
+          </div>
+
+          <button
+            onClick={handleExport}
+            className="w-full px-3 py-2 text-sm text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-800
+                       hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            Export Report
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -3,13 +3,37 @@ import { Header } from './Header';
 import { Tabs, TabId } from './Tabs';
 import { FilterSelector } from './FilterSelector';
 import { FilterToggle } from './FilterToggle';
+import { CompareButton } from './CompareButton';
+import { CycleControls } from './CycleControls';
 import { SeveritySlider } from './SeveritySlider';
+import { AccuracyOptions } from './AccuracyOptions';
+import { AssistPanel } from './AssistPanel';
+import { PalettePanel } from './PalettePanel';
+import { ColorVisionTest } from './ColorVisionTest';
+import { SimulationStackEditor } from './SimulationStackEditor';
+import { ScopeControls } from './ScopeControls';
+import { ExclusionEditor } from './ExclusionEditor';
 import { FilterInfo } from './FilterInfo';
 import { Settings } from './Settings';
 import { Toast } from './Toast';
 import { ErrorBoundary } from './ErrorBoundary';
-import type { ColorBlindnessType, FilterConfig } from '../../lib/colorblind-filters';
-import { getDefaultSeverity, isAnomalyType, isValidType, sanitizeSeverity } from '../../lib/colorblind-filters';
+import type {
+  ColorBlindnessType,
+  CustomProfile,
+  FilterConfig,
+  FilterMode,
+  SimulationLayer,
+  SimulationOptions
+} from '../../lib/colorblind-filters';
+import {
+  getDefaultSeverity,
+  hasActiveSimulation,
+  isAnomalyType,
+  isCorrectableType,
+  isValidType,
+  sanitizeSeverity
+} from '../../lib/colorblind-filters';
+import type { PagePalette } from '../../lib/palette';
 import type { ColorBlindPreferences } from '../../lib/storage';
 import {
   getPreferences,
@@ -18,6 +42,11 @@ import {
   setCurrentFilter,
   getIsEnabled,
   setIsEnabled,
+  getCustomProfiles,
+  getSiteExclusions,
+  setSiteExclusions,
+  saveCustomProfile,
+  deleteCustomProfile,
   exportData,
   importData,
   clearHistory,
@@ -26,7 +55,7 @@ import {
 import { createLogger } from '../../lib/logger';
 import { MAX_IMPORT_FILE_SIZE, isValidImportFileSize } from '../../lib/validation';
 import { debounce } from '../../lib/debounce';
-import { isRestrictedPage, getUserMessage } from '../../lib/errors';
+import { isRestrictedPage, getUserMessage, isErrorResponse, fromErrorResponse } from '../../lib/errors';
 
 const logger = createLogger('PopupApp');
 
@@ -44,14 +73,38 @@ export function PopupApp() {
   const [activeTab, setActiveTab] = useState<TabId>('simulator');
   const [filterType, setFilterType] = useState<ColorBlindnessType>('deuteranopia');
   const [severity, setSeverity] = useState(100);
+  const [options, setOptions] = useState<SimulationOptions>({});
+  const [customProfile, setCustomProfile] = useState<CustomProfile | undefined>();
+  const [customProfiles, setCustomProfiles] = useState<CustomProfile[]>([]);
+  const [layers, setLayers] = useState<SimulationLayer[]>([]);
+  const [scope, setScope] = useState<string | undefined>();
+  const [hostname, setHostname] = useState<string | null>(null);
+  const [exclusions, setExclusions] = useState<string[]>([]);
+  const [mode, setMode] = useState<FilterMode>('simulate');
+  const [assistType, setAssistType] = useState<ColorBlindnessType>('deuteranomaly');
+  const [assistStrength, setAssistStrength] = useState(100);
   const [isEnabled, setIsEnabledState] = useState(false);
+  const [isComparing, setIsComparing] = useState(false);
+  const [isCycling, setIsCycling] = useState(false);
+  const [palette, setPalette] = useState<PagePalette | null>(null);
+  const [isScanningPalette, setIsScanningPalette] = useState(false);
   const [preferences, setPreferences] = useState<ColorBlindPreferences>({
     defaultFilter: 'deuteranopia',
     defaultSeverity: 100,
     autoApplyOnLoad: false,
     showInfoToasts: true,
     darkMode: false,
-    rememberPerSite: false
+    rememberPerSite: false,
+    renderingBackend: 'auto',
+    lensMode: 'simulated',
+    lensShape: 'circle',
+    lensSize: 200,
+    lensZoom: 2,
+    showToolbar: false,
+    toolbarPosition: null,
+    cycleInterval: 5,
+    cycleTypes: [],
+    deltaEThreshold: 10
   });
   const [toast, setToast] = useState<ToastState>({ 
     message: '', 
@@ -71,15 +124,26 @@ export function PopupApp() {
   useEffect(() => {
     const loadState = async () => {
       try {
-        const [prefs, currentFilter, enabled] = await Promise.all([
+        const [prefs, currentFilter, enabled, profiles] = await Promise.all([
           getPreferences(),
           getCurrentFilter(),
-          getIsEnabled()
+          getIsEnabled(),
+          getCustomProfiles()
         ]);
         
         setPreferences(prefs);
         setFilterType(currentFilter.type || prefs.defaultFilter);
         setSeverity(currentFilter.severity ?? prefs.defaultSeverity);
+        setOptions({ algorithm: currentFilter.algorithm, colorSpace: currentFilter.colorSpace });
+        setCustomProfile(currentFilter.customProfile);
+        setCustomProfiles(profiles);
+        setLayers(currentFilter.layers ?? []);
+        setScope(currentFilter.scope);
+        if (currentFilter.mode === 'assist') {
+          setAssistType(currentFilter.type);
+          setAssistStrength(currentFilter.severity);
+        }
+        setMode(currentFilter.mode ?? 'simulate');
         setIsEnabledState(enabled);
         
         // Apply dark mode
@@ -97,6 +161,39 @@ export function PopupApp() {
     loadState();
   }, [showToast]);
 
+  // Load exclusions for the active tab's site
+  useEffect(() => {
+    const loadExclusions = async () => {
+      try {
+        const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+        if (!tab?.url || isRestrictedPage(tab.url).restricted) return;
+        
+        const { hostname: host } = new URL(tab.url);
+        if (!host) return;
+        setHostname(host);
+        setExclusions(await getSiteExclusions(host));
+      } catch (error) {
+        logger.error('Error loading exclusions:', error);
+      }
+    };
+    
+    loadExclusions();
+  }, []);
+
+  // Load whether the active tab shows the split-screen comparison
+  useEffect(() => {
+    chrome.runtime.sendMessage({ action: 'getComparison' })
+      .then(response => setIsComparing(Boolean(response?.isComparing)))
+      .catch(error => logger.error('Error loading comparison state:', error));
+  }, []);
+
+  // Load whether the active tab runs the demo cycle
+  useEffect(() => {
+    chrome.runtime.sendMessage({ action: 'getCycle' })
+      .then(response => setIsCycling(Boolean(response?.isCycling)))
+      .catch(error => logger.error('Error loading demo cycle state:', error));
+  }, []);
+
   // Apply filter to page
   const applyFilter = useCallback(async (config: FilterConfig, enabled: boolean) => {
     try {
@@ -118,7 +215,7 @@ export function PopupApp() {
       }
       
       // Send message to background
-      await chrome.runtime.sendMessage({
+      const response = await chrome.runtime.sendMessage({
         action: 'setFilter',
         config,
         enabled
@@ -127,6 +224,14 @@ export function PopupApp() {
       // Update local state
       await setCurrentFilter(config);
       await setIsEnabled(enabled);
+      if (!enabled) {
+        setIsComparing(false);
+      }
+      
+      // The page refused the filter, e.g. under a strict Trusted Types policy
+      if (isErrorResponse(response)) {
+        throw fromErrorResponse(response);
+      }
       
     } catch (error) {
       logger.error('Error applying filter:', error);
@@ -135,51 +240,57 @@ export function PopupApp() {
     }
   }, [showToast]);
 
+  // Simulator controls only drive the page while simulate mode is on
+  const isSimulating = isEnabled && mode === 'simulate';
+  const isAssisting = isEnabled && mode === 'assist';
+
   // Handle filter type change with validation
-  const handleFilterChange = useCallback(async (type: ColorBlindnessType) => {
+  const handleFilterChange = useCallback(async (type: ColorBlindnessType, profile?: CustomProfile) => {
     // Validate filter type
-    if (!isValidType(type)) {
+    if (!isValidType(type) || (type === 'custom' && !profile)) {
       logger.warn('Invalid filter type received:', type);
       return;
     }
     
     setFilterType(type);
+    setCustomProfile(profile);
     
     // Get appropriate severity for this type
     const newSeverity = isAnomalyType(type) ? severity : getDefaultSeverity(type);
     setSeverity(sanitizeSeverity(newSeverity));
     
-    const config: FilterConfig = { type, severity: newSeverity };
+    const config: FilterConfig = { type, severity: newSeverity, ...options, customProfile: profile, layers, scope };
     
     // Auto-apply if enabled
-    if (isEnabled && type !== 'normal') {
+    if (isSimulating && hasActiveSimulation(config)) {
       await applyFilter(config, true);
       showToast(`Applied ${type} simulation`, 'success');
-    } else if (type === 'normal' && isEnabled) {
+    } else if (isSimulating) {
       await applyFilter(config, false);
       setIsEnabledState(false);
       showToast('Simulation disabled', 'info');
     }
-  }, [severity, isEnabled, applyFilter, showToast]);
+  }, [severity, options, layers, scope, isSimulating, applyFilter, showToast]);
 
   // Handle toggle with validation
   const handleToggle = useCallback(async () => {
-    if (!isValidType(filterType) || filterType === 'normal') {
+    const config: FilterConfig = { type: filterType, severity: sanitizeSeverity(severity), ...options, customProfile, layers, scope };
+    if (!isValidType(filterType) || !hasActiveSimulation(config)) {
       showToast('Select a filter type first', 'info');
       return;
     }
     
-    const newEnabled = !isEnabled;
+    const newEnabled = !isSimulating;
     setIsEnabledState(newEnabled);
+    setMode('simulate');
     
-    const config: FilterConfig = { type: filterType, severity: sanitizeSeverity(severity) };
     await applyFilter(config, newEnabled);
     
     showToast(
       newEnabled ? `${filterType} simulation enabled` : 'Simulation disabled',
       'success'
     );
-  }, [filterType, severity, isEnabled, applyFilter, showToast]);
+  }, [filterType, severity, options, customProfile, layers, scope, isSimulating, applyFilter, showToast]);
 
   // Create debounced filter application
   const debouncedApplyFilter = useMemo(() => {
@@ -193,11 +304,198 @@ export function PopupApp() {
     const sanitized = sanitizeSeverity(newSeverity);
     setSeverity(sanitized);
     
-    if (isEnabled && isValidType(filterType)) {
-      const config: FilterConfig = { type: filterType, severity: sanitized };
+    if (isSimulating && isValidType(filterType)) {
+      const config: FilterConfig = { type: filterType, severity: sanitized, ...options, customProfile, layers, scope };
       debouncedApplyFilter(config);
     }
-  }, [filterType, isEnabled, debouncedApplyFilter]);
+  }, [filterType, options, customProfile, layers, scope, isSimulating, debouncedApplyFilter]);
+
+  // Handle algorithm and color space changes
+  const handleOptionsChange = useCallback(async (newOptions: SimulationOptions) => {
+    setOptions(newOptions);
+    
+    if (isSimulating && isValidType(filterType) && filterType !== 'normal') {
+      const config: FilterConfig = { type: filterType, severity: sanitizeSeverity(severity), ...newOptions, customProfile, layers, scope };
+      await applyFilter(config, true);
+    }
+  }, [filterType, severity, customProfile, layers, scope, isSimulating, applyFilter]);
+  
+  // Handle simulation stack changes, disabling when nothing is left to simulate
+  const handleLayersChange = useCallback((newLayers: SimulationLayer[]) => {
+    setLayers(newLayers);
+    
+    if (isSimulating && isValidType(filterType)) {
+      const config: FilterConfig = { type: filterType, severity: sanitizeSeverity(severity), ...options, customProfile, layers: newLayers, scope };
+      if (hasActiveSimulation(config)) {
+        debouncedApplyFilter(config);
+      } else {
+        applyFilter(config, false);
+        setIsEnabledState(false);
+      }
+    }
+  }, [filterType, severity, options, customProfile, scope, isSimulating, applyFilter, debouncedApplyFilter]);
+  
+  // Handle split-screen comparison on/off for whatever is applied
+  const handleCompareToggle = useCallback(async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'setComparison', enabled: !isComparing });
+      if (!response?.success) {
+        showToast('Turn on a simulation first', 'info');
+        return;
+      }
+      setIsComparing(response.isComparing);
+    } catch (error) {
+      logger.error('Error toggling comparison:', error);
+      showToast(getUserMessage(error), 'error');
+    }
+  }, [isComparing, showToast]);
+  
+  // Start or stop the demo cycle with the saved types and interval
+  const handleCycleToggle = useCallback(async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'setCycle', enabled: !isCycling });
+      if (!response?.success) {
+        showToast('Cannot cycle on this page', 'error');
+        return;
+      }
+      setIsCycling(response.isCycling);
+    } catch (error) {
+      logger.error('Error toggling demo cycle:', error);
+      showToast(getUserMessage(error), 'error');
+    }
+  }, [isCycling, showToast]);
+  
+  // Collect the active page's colors for the palette tab
+  const handleScanPalette = useCallback(async () => {
+    setIsScanningPalette(true);
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'getPalette' });
+      if (isErrorResponse(response)) {
+        throw fromErrorResponse(response);
+      }
+      if (!response?.palette) {
+        showToast('Cannot scan this page', 'error');
+        return;
+      }
+      setPalette(response.palette);
+    } catch (error) {
+      logger.error('Error scanning palette:', error);
+      showToast(getUserMessage(error), 'error');
+    } finally {
+      setIsScanningPalette(false);
+    }
+  }, [showToast]);
+  
+  // Handle scope changes; undefined simulates the whole page
+  const handleScopeChange = useCallback(async (newScope: string | undefined) => {
+    setScope(newScope);
+    
+    if (isSimulating && isValidType(filterType)) {
+      const config: FilterConfig = { type: filterType, severity: sanitizeSeverity(severity), ...options, customProfile, layers, scope: newScope };
+      await applyFilter(config, true);
+      showToast(newScope ? `Simulating ${newScope} only` : 'Simulating the whole page', 'success');
+    }
+  }, [filterType, severity, options, customProfile, layers, isSimulating, applyFilter, showToast]);
+  
+  // Pick the scope in the page; the popup closes so the page can be clicked
+  const handlePickElement = useCallback(async () => {
+    const config: FilterConfig = { type: filterType, severity: sanitizeSeverity(severity), ...options, customProfile, layers };
+    if (!isValidType(filterType) || !hasActiveSimulation(config)) {
+      showToast('Select a filter type first', 'info');
+      return;
+    }
+    
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'startElementPicker', config });
+      if (!response?.success) {
+        showToast('Cannot pick elements on this page', 'error');
+        return;
+      }
+      window.close();
+    } catch (error) {
+      logger.error('Error starting element picker:', error);
+      showToast(getUserMessage(error), 'error');
+    }
+  }, [filterType, severity, options, customProfile, layers, showToast]);
+  
+  // Handle exclusion edits; the page re-renders when storage changes
+  const handleExclusionsChange = useCallback(async (selectors: string[]) => {
+    if (!hostname) return;
+    
+    try {
+      await setSiteExclusions(hostname, selectors);
+      setExclusions(selectors);
+    } catch (error) {
+      logger.error('Error saving exclusions:', error);
+      showToast('Error saving exclusions', 'error');
+    }
+  }, [hostname, showToast]);
+  
+  // Handle custom profile create/update
+  const handleSaveProfile = useCallback(async (profile: CustomProfile) => {
+    await saveCustomProfile(profile);
+    setCustomProfiles(await getCustomProfiles());
+    showToast(`Saved profile "${profile.name}"`, 'success');
+    
+    // Re-apply if the edited profile is the active one
+    if (filterType === 'custom' && customProfile?.id === profile.id) {
+      setCustomProfile(profile);
+      if (isSimulating) {
+        await applyFilter({ type: 'custom', severity: sanitizeSeverity(severity), ...options, customProfile: profile, layers, scope }, true);
+      }
+    }
+  }, [filterType, severity, options, customProfile, layers, scope, isSimulating, applyFilter, showToast]);
+  
+  // Handle Assist on/off; turning it on replaces any running simulation
+  const handleAssistToggle = useCallback(async () => {
+    const newEnabled = !isAssisting;
+    const config: FilterConfig = { type: assistType, severity: assistStrength, mode: 'assist' };
+    
+    setIsEnabledState(newEnabled);
+    setMode(newEnabled ? 'assist' : 'simulate');
+    await applyFilter(config, newEnabled);
+    
+    showToast(newEnabled ? 'Color correction enabled' : 'Color correction disabled', 'success');
+  }, [assistType, assistStrength, isAssisting, applyFilter, showToast]);
+  
+  // Handle the deficiency being corrected
+  const handleAssistTypeChange = useCallback(async (type: ColorBlindnessType) => {
+    if (!isCorrectableType(type)) {
+      logger.warn('Invalid assist type received:', type);
+      return;
+    }
+    
+    setAssistType(type);
+    if (isAssisting) {
+      await applyFilter({ type, severity: assistStrength, mode: 'assist' }, true);
+    }
+  }, [assistStrength, isAssisting, applyFilter]);
+  
+  // Handle correction strength changes with debouncing
+  const handleAssistStrengthChange = useCallback((strength: number) => {
+    const sanitized = sanitizeSeverity(strength);
+    setAssistStrength(sanitized);
+    
+    if (isAssisting) {
+      debouncedApplyFilter({ type: assistType, severity: sanitized, mode: 'assist' });
+    }
+  }, [assistType, isAssisting, debouncedApplyFilter]);
+  
+  // Handle custom profile deletion
+  const handleDeleteProfile = useCallback(async (id: string) => {
+    try {
+      await deleteCustomProfile(id);
+      setCustomProfiles(await getCustomProfiles());
+      
+      if (filterType === 'custom' && customProfile?.id === id) {
+        await handleFilterChange('normal');
+      }
+      showToast('Profile deleted', 'success');
+    } catch (error) {
+      logger.error('Error deleting profile:', error);
+      showToast('Error deleting profile', 'error');
+    }
+  }, [filterType, customProfile, handleFilterChange, showToast]);
 
   // Handle dark mode toggle
   const handleToggleDarkMode = useCallback(async () => {
@@ -279,6 +577,16 @@ export function PopupApp() {
         const currentFilter = await getCurrentFilter();
         setFilterType(currentFilter.type || prefs.defaultFilter);
         setSeverity(currentFilter.severity ?? prefs.defaultSeverity);
+        setOptions({ algorithm: currentFilter.algorithm, colorSpace: currentFilter.colorSpace });
+        setCustomProfile(currentFilter.customProfile);
+        setCustomProfiles(await getCustomProfiles());
+        setLayers(currentFilter.layers ?? []);
+        setScope(currentFilter.scope);
+        if (currentFilter.mode === 'assist') {
+          setAssistType(currentFilter.type);
+          setAssistStrength(currentFilter.severity);
+        }
+        setMode(currentFilter.mode ?? 'simulate');
         
         showToast('Data imported successfully', 'success');
       } catch (error) {
@@ -312,6 +620,11 @@ export function PopupApp() {
       setPreferences(prefs);
       setFilterType(prefs.defaultFilter);
       setSeverity(prefs.defaultSeverity);
+      setOptions({});
+      setCustomProfile(undefined);
+      setLayers([]);
+      setScope(undefined);
+      setMode('simulate');
       setIsEnabledState(false);
       
       showToast('Settings reset to defaults', 'success');
@@ -345,19 +658,64 @@ export function PopupApp() {
               <FilterSelector
                 selectedFilter={filterType}
                 onFilterChange={handleFilterChange}
+                customProfiles={customProfiles}
+                selectedProfile={customProfile}
               />
               
               <FilterToggle
-                isEnabled={isEnabled}
-                filterType={filterType}
+                isEnabled={isSimulating}
+                config={{ type: filterType, severity, customProfile, layers }}
                 onToggle={handleToggle}
               />
               
+              <CompareButton
+                isComparing={isComparing}
+                onToggle={handleCompareToggle}
+                disabled={!isSimulating}
+              />
+              
               <SeveritySlider
                 filterType={filterType}
                 severity={severity}
                 onSeverityChange={handleSeverityChange}
-                disabled={!isEnabled}
+                disabled={!isSimulating}
+              />
+              
+              <AccuracyOptions
+                filterType={filterType}
+                customProfile={customProfile}
+                options={options}
+                onOptionsChange={handleOptionsChange}
+              />
+              
+              <SimulationStackEditor
+                layers={layers}
+                onLayersChange={handleLayersChange}
+                customProfiles={customProfiles}
+              />
+              
+              <ScopeControls
+                key={scope ?? ''}
+                scope={scope}
+                onScopeChange={handleScopeChange}
+                onPickElement={handlePickElement}
+              />
+              
+              {hostname && (
+                <ExclusionEditor
+                  hostname={hostname}
+                  selectors={exclusions}
+                  onSelectorsChange={handleExclusionsChange}
+                />
+              )}
+              
+              <CycleControls
+                interval={preferences.cycleInterval}
+                types={preferences.cycleTypes}
+                onIntervalChange={(cycleInterval) => handleUpdatePreferences({ cycleInterval })}
+                onTypesChange={(cycleTypes) => handleUpdatePreferences({ cycleTypes })}
+                isCycling={isCycling}
+                onToggle={handleCycleToggle}
               />
               
               {/* Quick keyboard shortcut hint */}
@@ -370,11 +728,55 @@ export function PopupApp() {
             </div>
           )}
           
+          {activeTab === 'assist' && (
+            <div className="p-4">
+              <AssistPanel
+                type={assistType}
+                strength={assistStrength}
+                isEnabled={isAssisting}
+                onTypeChange={handleAssistTypeChange}
+                onStrengthChange={handleAssistStrengthChange}
+                onToggle={handleAssistToggle}
+              />
+              
+              <div className="mt-5">
+                <CompareButton
+                  isComparing={isComparing}
+                  onToggle={handleCompareToggle}
+                  disabled={!isAssisting}
+                />
+              </div>
+              
+              <div className="mt-5 pt-4 border-t border-gray-200 dark:border-gray-700">
+                <ColorVisionTest
+                  onSaveDefault={(type, testSeverity) => handleUpdatePreferences({
+                    defaultFilter: type,
+                    defaultSeverity: testSeverity
+                  })}
+                  onUseForAssist={handleAssistTypeChange}
+                />
+              </div>
+            </div>
+          )}
+          
+          {activeTab === 'palette' && (
+            <div className="p-4">
+              <PalettePanel
+                palette={palette}
+                options={options}
+                threshold={preferences.deltaEThreshold}
+                onThresholdChange={(deltaEThreshold) => handleUpdatePreferences({ deltaEThreshold })}
+                isScanning={isScanningPalette}
+                onScan={handleScanPalette}
+              />
+            </div>
+          )}
+          
           {activeTab === 'info' && (
             <div className="p-4">
               <FilterInfo 
-                filterType={filterType} 
-                isEnabled={isEnabled} 
+                config={{ type: filterType, severity, ...options, customProfile, layers }} 
+                isEnabled={isSimulating} 
               />
             </div>
           )}
@@ -387,6 +789,9 @@ export function PopupApp() {
               onImportData={handleImport}
               onClearHistory={handleClearHistory}
               onResetDefaults={handleResetDefaults}
+              customProfiles={customProfiles}
+              onSaveProfile={handleSaveProfile}
+              onDeleteProfile={handleDeleteProfile}
             />
           )}
         </main>
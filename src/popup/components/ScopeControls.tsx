@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { MAX_SCOPE_LENGTH } from '../../lib/colorblind-filters';
+import { isValidSelector } from '../../lib/validation';
+
+interface ScopeControlsProps {
+  scope?: string;
+  onScopeChange: (scope: string | undefined) => void;
+  onPickElement: () => void;
+  disabled?: boolean;
+}
+
+export function ScopeControls({
+  scope,
+  onScopeChange,
+  onPickElement,
+  disabled = false
+}: ScopeControlsProps) {
+  const [draft, setDraft] = useState(scope ?? '');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleApply = () => {
+    const selector = draft.trim();
+    if (!isValidSelector(selector)) {
+      setError('Not a valid CSS selector');
+      return;
+    }
+    setError(null);
+    onScopeChange(selector);
+  };
+
+  const handleClear = () => {
+    setDraft('');
+    setError(null);
+    onScopeChange(undefined);
+  };
+
+  const buttonClassName = `px-3 py-1.5 text-xs text-gray-700 dark:text-gray-300
+                           bg-gray-100 dark:bg-gray-800 rounded-lg
+                           hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors
+                           disabled:opacity-50 disabled:cursor-not-allowed`;
+
+  return (
+    <details className="scope-controls" open={Boolean(scope)}>
+      <summary
+        className="flex items-center justify-between cursor-pointer text-sm font-medium
+                   text-gray-700 dark:text-gray-300 select-none"
+      >
+        <span>Scope</span>
+        <span className="text-xs font-normal text-gray-500 dark:text-gray-400 truncate max-w-[60%]">
+          {scope ?? 'Whole page'}
+        </span>
+      </summary>
+
+      <div className="mt-3 space-y-2">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleApply()}
+            maxLength={MAX_SCOPE_LENGTH}
+            placeholder=".chart, #legend"
+            aria-label="CSS selector to simulate"
+            aria-invalid={error !== null}
+            disabled={disabled}
+            className="flex-1 min-w-0 px-3 py-1.5 bg-white dark:bg-gray-800 border border-gray-300
+                       dark:border-gray-600 rounded-lg text-xs font-mono text-gray-900 dark:text-gray-100
+                       focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500
+                       disabled:opacity-50 disabled:cursor-not-allowed"
+          />
+          <button
+            onClick={handleApply}
+            disabled={disabled || draft.trim() === '' || draft.trim() === scope}
+            className={buttonClassName}
+          >
+            Apply
+          </button>
+        </div>
+
+        {error && (
+          <p className="text-xs text-red-600 dark:text-red-400" role="alert">
+            {error}
+          </p>
+        )}
+
+        <div className="flex gap-2">
+          <button onClick={onPickElement} disabled={disabled} className={`flex-1 ${buttonClassName}`}>
+            Pick Element
+          </button>
+          <button onClick={handleClear} disabled={disabled || !scope} className={`flex-1 ${buttonClassName}`}>
+            Whole Page
+          </button>
+        </div>
+
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Only matching elements are simulated. Press Esc to cancel picking.
+        </p>
+      </div>
+    </details>
+  );
+}
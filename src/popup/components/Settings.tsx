@@ -1,6 +1,8 @@
 import { useState } from 'react';
-import type { ColorBlindPreferences } from '../../lib/storage';
-import { ColorBlindnessType, FILTER_INFO, getAllFilterTypes } from '../../lib/colorblind-filters';
+import type { ColorBlindPreferences, LensMode, LensShape, RenderingBackend } from '../../lib/storage';
+import { LENS_SIZE_RANGE, LENS_ZOOM_RANGE } from '../../lib/validation';
+import { ColorBlindnessType, CustomProfile, FILTER_INFO, getAllFilterTypes } from '../../lib/colorblind-filters';
+import { CustomProfileEditor } from './CustomProfileEditor';
 
 interface SettingsProps {
   preferences: ColorBlindPreferences;
@@ -9,6 +11,9 @@ interface SettingsProps {
   onImportData: () => void;
   onClearHistory: () => void;
   onResetDefaults: () => void;
+  customProfiles: CustomProfile[];
+  onSaveProfile: (profile: CustomProfile) => Promise<void>;
+  onDeleteProfile: (id: string) => void;
 }
 
 export function Settings({
@@ -17,7 +22,10 @@ export function Settings({
   onExportData,
   onImportData,
   onClearHistory,
-  onResetDefaults
+  onResetDefaults,
+  customProfiles,
+  onSaveProfile,
+  onDeleteProfile
 }: SettingsProps) {
   const [showConfirmClear, setShowConfirmClear] = useState(false);
   const [showConfirmReset, setShowConfirmReset] = useState(false);
@@ -77,7 +85,107 @@ export function Settings({
                      cursor-pointer accent-emerald-500"
         />
         <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-          Default intensity for anomaly-type filters.
+          Default intensity for severity-adjustable filters.
+        </p>
+      </div>
+      
+      {/* Rendering backend */}
+      <div>
+        <label 
+          htmlFor="rendering-backend" 
+          className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+        >
+          Rendering
+        </label>
+        <select
+          id="rendering-backend"
+          value={preferences.renderingBackend}
+          onChange={(e) => onUpdatePreferences({ 
+            renderingBackend: e.target.value as RenderingBackend 
+          })}
+          className="w-full px-3 py-2 bg-white dark:bg-gray-800 border border-gray-300 
+                     dark:border-gray-600 rounded-lg text-sm text-gray-900 dark:text-gray-100
+                     focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+        >
+          <option value="auto">Automatic</option>
+          <option value="root">Whole page</option>
+          <option value="elements">Per element</option>
+        </select>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          Per element keeps fixed headers and sticky bars in place. Automatic
+          switches to it on pages that have them.
+        </p>
+      </div>
+      
+      {/* Magnifier lens */}
+      <div className="space-y-3">
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          Magnifier Lens
+        </h3>
+        <div className="flex gap-2">
+          <select
+            value={preferences.lensMode}
+            onChange={(e) => onUpdatePreferences({ lensMode: e.target.value as LensMode })}
+            aria-label="Lens content"
+            className="flex-1 px-3 py-2 bg-white dark:bg-gray-800 border border-gray-300 
+                       dark:border-gray-600 rounded-lg text-sm text-gray-900 dark:text-gray-100
+                       focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+          >
+            <option value="simulated">Simulation in lens</option>
+            <option value="inverse">Normal in lens</option>
+          </select>
+          <select
+            value={preferences.lensShape}
+            onChange={(e) => onUpdatePreferences({ lensShape: e.target.value as LensShape })}
+            aria-label="Lens shape"
+            className="flex-1 px-3 py-2 bg-white dark:bg-gray-800 border border-gray-300 
+                       dark:border-gray-600 rounded-lg text-sm text-gray-900 dark:text-gray-100
+                       focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+          >
+            <option value="circle">Circle</option>
+            <option value="rectangle">Rectangle</option>
+          </select>
+        </div>
+        <div>
+          <label 
+            htmlFor="lens-size" 
+            className="block text-xs text-gray-600 dark:text-gray-400 mb-1"
+          >
+            Size: {preferences.lensSize}px
+          </label>
+          <input
+            id="lens-size"
+            type="range"
+            min={LENS_SIZE_RANGE.min}
+            max={LENS_SIZE_RANGE.max}
+            step="20"
+            value={preferences.lensSize}
+            onChange={(e) => onUpdatePreferences({ lensSize: parseInt(e.target.value, 10) })}
+            className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none 
+                       cursor-pointer accent-emerald-500"
+          />
+        </div>
+        <div>
+          <label 
+            htmlFor="lens-zoom" 
+            className="block text-xs text-gray-600 dark:text-gray-400 mb-1"
+          >
+            Zoom: {preferences.lensZoom}×
+          </label>
+          <input
+            id="lens-zoom"
+            type="range"
+            min={LENS_ZOOM_RANGE.min}
+            max={LENS_ZOOM_RANGE.max}
+            step="0.5"
+            value={preferences.lensZoom}
+            onChange={(e) => onUpdatePreferences({ lensZoom: parseFloat(e.target.value) })}
+            className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none 
+                       cursor-pointer accent-emerald-500"
+          />
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Press Alt+Shift+L on a page to show or hide the lens.
         </p>
       </div>
       
@@ -175,6 +283,50 @@ export function Settings({
             />
           </button>
         </div>
+        
+        <div className="flex items-center justify-between">
+          <div>
+            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Floating toolbar
+            </span>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Switch simulations from a draggable toolbar on the page
+            </p>
+          </div>
+          <button
+            onClick={() => onUpdatePreferences({ 
+              showToolbar: !preferences.showToolbar 
+            })}
+            className={`relative inline-flex h-6 w-11 items-center rounded-full 
+                       transition-colors ${
+              preferences.showToolbar 
+                ? 'bg-emerald-500' 
+                : 'bg-gray-300 dark:bg-gray-600'
+            }`}
+            role="switch"
+            aria-checked={preferences.showToolbar}
+          >
+            <span
+              className={`inline-block h-4 w-4 transform rounded-full bg-white shadow 
+                         transition-transform ${
+                preferences.showToolbar ? 'translate-x-6' : 'translate-x-1'
+              }`}
+            />
+          </button>
+        </div>
+      </div>
+      
+      {/* Custom profiles */}
+      <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+          Custom Profiles
+        </h3>
+        
+        <CustomProfileEditor
+          profiles={customProfiles}
+          onSave={onSaveProfile}
+          onDelete={onDeleteProfile}
+        />
       </div>
       
       {/* Data management */}
@@ -1,4 +1,4 @@
-import { ColorBlindnessType, isAnomalyType } from '../../lib/colorblind-filters';
+import { ColorBlindnessType, isSeverityAdjustable } from '../../lib/colorblind-filters';
 
 interface SeveritySliderProps {
   filterType: ColorBlindnessType;
@@ -13,9 +13,7 @@ export function SeveritySlider({
   onSeverityChange,
   disabled = false 
 }: SeveritySliderProps) {
-  const isAnomaly = isAnomalyType(filterType);
-  
-  if (!isAnomaly) {
+  if (!isSeverityAdjustable(filterType)) {
     return null;
   }
   
@@ -0,0 +1,223 @@
+import {
+  CustomProfile,
+  FILTER_CATEGORY_LABELS,
+  FILTER_INFO,
+  MAX_STACK_LAYERS,
+  SimulationLayer,
+  getDefaultSeverity,
+  getFiltersByCategory,
+  getLayerLabel,
+  isSeverityAdjustable
+} from '../../lib/colorblind-filters';
+import { LOW_VISION_INFO, LOW_VISION_KINDS } from '../../lib/low-vision';
+
+interface SimulationStackEditorProps {
+  layers: SimulationLayer[];
+  onLayersChange: (layers: SimulationLayer[]) => void;
+  customProfiles?: CustomProfile[];
+  disabled?: boolean;
+}
+
+const CUSTOM_VALUE_PREFIX = 'custom:';
+const LOW_VISION_VALUE_PREFIX = 'low-vision:';
+
+// Default strength of a newly added low-vision layer
+const DEFAULT_LOW_VISION_SEVERITY = 50;
+
+function createLayer(value: string, customProfiles: CustomProfile[]): SimulationLayer | null {
+  if (value.startsWith(LOW_VISION_VALUE_PREFIX)) {
+    const kind = LOW_VISION_KINDS.find(k => LOW_VISION_VALUE_PREFIX + k === value);
+    return kind ? { kind, severity: DEFAULT_LOW_VISION_SEVERITY } : null;
+  }
+
+  if (value.startsWith(CUSTOM_VALUE_PREFIX)) {
+    const profile = customProfiles.find(p => CUSTOM_VALUE_PREFIX + p.id === value);
+    return profile ? { kind: 'color', type: 'custom', severity: 100, customProfile: profile } : null;
+  }
+
+  const type = Object.values(getFiltersByCategory()).flat().find(t => t === value);
+  return type ? { kind: 'color', type, severity: getDefaultSeverity(type) } : null;
+}
+
+function hasSeverity(layer: SimulationLayer): boolean {
+  return layer.kind !== 'color' || isSeverityAdjustable(layer.type);
+}
+
+export function SimulationStackEditor({
+  layers,
+  onLayersChange,
+  customProfiles = [],
+  disabled = false
+}: SimulationStackEditorProps) {
+  const categories = getFiltersByCategory();
+  // The primary filter type takes one slot of the stack
+  const isFull = layers.length >= MAX_STACK_LAYERS - 1;
+
+  const updateLayer = (index: number, layer: SimulationLayer) => {
+    onLayersChange(layers.map((current, i) => (i === index ? layer : current)));
+  };
+
+  const moveLayer = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= layers.length) return;
+    const reordered = [...layers];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onLayersChange(reordered);
+  };
+
+  const removeLayer = (index: number) => {
+    onLayersChange(layers.filter((_, i) => i !== index));
+  };
+
+  const handleAdd = (value: string) => {
+    const layer = createLayer(value, customProfiles);
+    if (layer && !isFull) {
+      onLayersChange([...layers, layer]);
+    }
+  };
+
+  const buttonClassName = `px-1.5 py-0.5 text-xs text-gray-600 dark:text-gray-400 rounded
+                           hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors
+                           disabled:opacity-30 disabled:cursor-not-allowed`;
+
+  return (
+    <details className="simulation-stack-editor">
+      <summary
+        className="flex items-center justify-between cursor-pointer text-sm font-medium
+                   text-gray-700 dark:text-gray-300 select-none"
+      >
+        <span>Simulation Stack</span>
+        <span className="text-xs font-normal text-gray-500 dark:text-gray-400">
+          {layers.length > 0 ? `${layers.length} extra ${layers.length === 1 ? 'layer' : 'layers'}` : 'Off'}
+        </span>
+      </summary>
+
+      <div className="mt-3 space-y-3">
+        {layers.length > 0 && (
+          <ol className="space-y-2">
+            {layers.map((layer, index) => {
+              const id = `stack-layer-${index}`;
+              const description = layer.kind === 'color'
+                ? FILTER_INFO[layer.type].description
+                : LOW_VISION_INFO[layer.kind].description;
+
+              return (
+                <li
+                  key={index}
+                  className="px-3 py-2 bg-gray-50 dark:bg-gray-800/50 rounded-lg"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <label
+                      htmlFor={id}
+                      className="text-xs font-medium text-gray-700 dark:text-gray-300 truncate"
+                      title={description}
+                    >
+                      {index + 2}. {getLayerLabel(layer)}
+                    </label>
+                    <div className="flex gap-0.5 shrink-0">
+                      <button
+                        onClick={() => moveLayer(index, -1)}
+                        disabled={disabled || index === 0}
+                        aria-label={`Move ${getLayerLabel(layer)} up`}
+                        className={buttonClassName}
+                      >
+                        ↑
+                      </button>
+                      <button
+                        onClick={() => moveLayer(index, 1)}
+                        disabled={disabled || index === layers.length - 1}
+                        aria-label={`Move ${getLayerLabel(layer)} down`}
+                        className={buttonClassName}
+                      >
+                        ↓
+                      </button>
+                      <button
+                        onClick={() => removeLayer(index)}
+                        disabled={disabled}
+                        aria-label={`Remove ${getLayerLabel(layer)}`}
+                        className={buttonClassName}
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  </div>
+
+                  {hasSeverity(layer) && (
+                    <div className="flex items-center gap-2 mt-1">
+                      <input
+                        id={id}
+                        type="range"
+                        min="0"
+                        max="100"
+                        step="5"
+                        value={layer.severity}
+                        onChange={(e) => updateLayer(index, {
+                          ...layer,
+                          severity: parseInt(e.target.value, 10)
+                        })}
+                        disabled={disabled}
+                        className="flex-1 h-1.5 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none
+                                   cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed
+                                   accent-emerald-500"
+                      />
+                      <span className="w-9 text-right text-xs font-mono text-gray-500 dark:text-gray-400">
+                        {layer.severity}%
+                      </span>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+
+        <select
+          value=""
+          onChange={(e) => handleAdd(e.target.value)}
+          disabled={disabled || isFull}
+          aria-label="Add simulation layer"
+          className="w-full px-3 py-2 bg-white dark:bg-gray-800 border border-gray-300
+                     dark:border-gray-600 rounded-lg text-sm text-gray-900 dark:text-gray-100
+                     focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500
+                     disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <option value="" disabled>
+            {isFull ? 'Stack is full' : 'Add layer…'}
+          </option>
+          <optgroup label="Low Vision">
+            {LOW_VISION_KINDS.map((kind) => (
+              <option key={kind} value={LOW_VISION_VALUE_PREFIX + kind}>
+                {LOW_VISION_INFO[kind].name}
+              </option>
+            ))}
+          </optgroup>
+          {Object.entries(categories).map(([category, types]) => {
+            const stackable = types.filter(type => type !== 'normal');
+            return stackable.length > 0 && (
+              <optgroup key={category} label={category}>
+                {stackable.map((type) => (
+                  <option key={type} value={type}>
+                    {FILTER_INFO[type].name}
+                  </option>
+                ))}
+              </optgroup>
+            );
+          })}
+          {customProfiles.length > 0 && (
+            <optgroup label={FILTER_CATEGORY_LABELS.custom}>
+              {customProfiles.map((profile) => (
+                <option key={profile.id} value={CUSTOM_VALUE_PREFIX + profile.id}>
+                  {profile.name}
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Layers apply in order after the selected filter.
+        </p>
+      </div>
+    </details>
+  );
+}
@@ -1,6 +1,6 @@
 import React from 'react';
 
-export type TabId = 'simulator' | 'info' | 'settings';
+export type TabId = 'simulator' | 'assist' | 'palette' | 'info' | 'settings';
 
 interface Tab {
   id: TabId;
@@ -34,6 +34,34 @@ const tabs: Tab[] = [
       </svg>
     )
   },
+  {
+    id: 'assist',
+    label: 'Assist',
+    icon: (
+      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path 
+          strokeLinecap="round" 
+          strokeLinejoin="round" 
+          strokeWidth={2} 
+          d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" 
+        />
+      </svg>
+    )
+  },
+  {
+    id: 'palette',
+    label: 'Palette',
+    icon: (
+      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path 
+          strokeLinecap="round" 
+          strokeLinejoin="round" 
+          strokeWidth={2} 
+          d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01" 
+        />
+      </svg>
+    )
+  },
   {
     id: 'info',
     label: 'Info',
@@ -78,8 +106,8 @@ export function Tabs({ activeTab, onTabChange }: TabsProps) {
           key={tab.id}
           onClick={() => onTabChange(tab.id)}
           className={`
-            flex-1 flex items-center justify-center gap-1.5 px-3 py-2.5
-            text-sm font-medium transition-colors
+            flex-1 flex flex-col items-center justify-center gap-0.5 px-1 py-2
+            text-xs font-medium transition-colors
             ${activeTab === tab.id
               ? 'text-emerald-600 dark:text-emerald-400 border-b-2 border-emerald-500 -mb-px bg-white dark:bg-gray-900'
               : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300'